@@ -1,11 +1,24 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Operation, AlgorithmStep, ProgrammingLanguage, PlaybackState } from './types';
-import { generateSteps, resetNodeIdCounter } from './algorithm/trie';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type {
+  Operation,
+  AlgorithmStep,
+  ProgrammingLanguage,
+  PlaybackState,
+  TrieMode,
+  ShareState,
+  GenerationProgress,
+  StepWorkerRequest,
+  StepWorkerResponse,
+  TreeLayout,
+} from './types';
+import { reconstructSnapshot } from './algorithm/snapshot';
+import { decodeShareState, encodeShareState, hasShareLink } from './utils/shareLink';
 import Header from './components/Header';
 import DataInput from './components/DataInput';
 import CodePanel from './components/CodePanel';
 import TrieCanvas from './components/TrieCanvas';
 import PlaybackControls from './components/PlaybackControls';
+import ResultVerification from './components/ResultVerification';
 import AlgorithmIdeaModal from './components/AlgorithmIdeaModal';
 import WeChatFloat from './components/WeChatFloat';
 import './App.css';
@@ -14,7 +27,16 @@ function App() {
   const [operations, setOperations] = useState<Operation[]>([]);
   const [steps, setSteps] = useState<AlgorithmStep[]>([]);
   const [selectedLanguage, setSelectedLanguage] = useState<ProgrammingLanguage>('java');
+  const [trieMode, setTrieMode] = useState<TrieMode>('standard');
+  const [matchText, setMatchText] = useState('ushers');
+  const [treeLayout, setTreeLayout] = useState<TreeLayout>('topDown');
+  const [expectedOutput, setExpectedOutput] = useState('');
+  const [results, setResults] = useState<Operation['result'][] | null>(null);
   const [showAlgorithmIdea, setShowAlgorithmIdea] = useState(false);
+  const [linkRestored, setLinkRestored] = useState(() => !hasShareLink()); // 分享链接解析完之前不改写地址栏
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [linkBroken, setLinkBroken] = useState(false); // 分享链接损坏或内容不合法，已忽略
   const [playbackState, setPlaybackState] = useState<PlaybackState>({
     isPlaying: false,
     currentStep: 0,
@@ -23,29 +45,97 @@ function App() {
   });
   
   const playIntervalRef = useRef<number | null>(null);
+  const resumeRef = useRef<ResumePoint | null>(null); // 编辑操作列表后，新步骤生成完要回到的位置
+  const linkStepRef = useRef<number | null>(null); // 分享链接中的步骤，步骤生成完后跳过去
 
-  // 当操作序列变化时，生成新的步骤
+  // 从分享链接恢复操作序列、语言和视图选项
   useEffect(() => {
-    if (operations.length > 0) {
-      resetNodeIdCounter();
-      const newSteps = generateSteps(operations);
-      setSteps(newSteps);
-      setPlaybackState(prev => ({
-        ...prev,
-        currentStep: 0,
-        totalSteps: newSteps.length,
-        isPlaying: false,
-      }));
-    } else {
+    if (!hasShareLink()) return;
+    decodeShareState(window.location.hash).then((state) => {
+      if (state) {
+        linkStepRef.current = state.operations.length > 0 ? state.step : null;
+        setSelectedLanguage(state.language);
+        setTrieMode(state.mode);
+        setMatchText(state.matchText);
+        setExpectedOutput(state.expectedOutput);
+        setTreeLayout(state.layout);
+        setPlaybackState(prev => ({ ...prev, speed: state.speed }));
+        setOperations(state.operations);
+      } else {
+        setLinkBroken(true);
+      }
+      setLinkRestored(true);
+    });
+  }, []);
+
+  // 当操作序列变化时，在 Worker 中生成新的步骤，收到一批就追加一批
+  useEffect(() => {
+    setGenerationError(null);
+    if (operations.length === 0) {
       setSteps([]);
+      setResults(null);
+      setGenerationProgress(null);
       setPlaybackState(prev => ({
         ...prev,
         currentStep: 0,
         totalSteps: 0,
         isPlaying: false,
       }));
+      return;
     }
-  }, [operations]);
+    
+    setSteps([]);
+    setResults(null);
+    setGenerationProgress({ completedOperations: 0, totalOperations: operations.length });
+    setPlaybackState(prev => ({
+      ...prev,
+      currentStep: 0,
+      totalSteps: 0,
+      isPlaying: false,
+    }));
+    
+    const worker = new Worker(new URL('./workers/stepWorker.ts', import.meta.url), { type: 'module' });
+    let received: AlgorithmStep[] = [];
+    
+    worker.onmessage = (event: MessageEvent<StepWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'batch') {
+        received = received.concat(message.steps);
+        setSteps(received);
+        setPlaybackState(prev => ({ ...prev, totalSteps: received.length }));
+        setGenerationProgress({
+          completedOperations: message.completedOperations,
+          totalOperations: message.totalOperations,
+        });
+      } else if (message.type === 'done') {
+        // 结果只保存在 results 中，操作对象可能来自示例数据或场景库，不能就地修改
+        setResults(message.results);
+        setGenerationProgress(null);
+        const linkStep = linkStepRef.current;
+        linkStepRef.current = null;
+        if (linkStep !== null) {
+          setPlaybackState(prev => ({ ...prev, currentStep: Math.min(linkStep, received.length - 1) }));
+        }
+        const resume = resumeRef.current;
+        resumeRef.current = null;
+        if (resume) {
+          setPlaybackState(prev => ({ ...prev, currentStep: findResumeStep(received, operations, resume) }));
+        }
+        worker.terminate();
+      } else {
+        setGenerationError(message.message);
+        setGenerationProgress(null);
+        linkStepRef.current = null; // 否则地址栏再也不会更新
+        worker.terminate();
+      }
+    };
+    
+    const request: StepWorkerRequest = { type: 'generate', operations, mode: trieMode, text: matchText };
+    worker.postMessage(request);
+    
+    // 操作序列或模式再次变化时，终止尚未完成的生成
+    return () => worker.terminate();
+  }, [operations, trieMode, matchText]);
 
   // 自动播放
   useEffect(() => {
@@ -77,8 +167,22 @@ function App() {
   }, [playbackState.currentStep, playbackState.totalSteps, playbackState.isPlaying]);
 
   const handleOperationsChange = useCallback((newOperations: Operation[]) => {
+    resumeRef.current = null;
     setOperations(newOperations);
   }, []);
+  
+  // 记下当前步骤属于哪个操作、是该操作的第几步，重新生成后据此找回位置
+  const handleOperationsEdit = useCallback((newOperations: Operation[]) => {
+    const step = steps[playbackState.currentStep];
+    resumeRef.current = step?.opIndex !== undefined
+      ? {
+          operation: operations[step.opIndex],
+          opIndex: step.opIndex,
+          offset: step.stepIndex - steps.findIndex(s => s.opIndex === step.opIndex),
+        }
+      : null;
+    setOperations(newOperations);
+  }, [steps, operations, playbackState.currentStep]);
 
   const handlePlay = useCallback(() => {
     if (playbackState.currentStep >= playbackState.totalSteps - 1) {
@@ -129,28 +233,116 @@ function App() {
     setPlaybackState(prev => ({ ...prev, speed }));
   }, []);
 
+  const shareState = useMemo<ShareState>(() => ({
+    operations,
+    step: playbackState.currentStep,
+    language: selectedLanguage,
+    mode: trieMode,
+    matchText,
+    speed: playbackState.speed,
+    expectedOutput,
+    layout: treeLayout,
+  }), [operations, playbackState.currentStep, playbackState.speed, selectedLanguage, trieMode, matchText, expectedOutput, treeLayout]);
+  
+  // 把当前状态写进地址栏，刷新或直接复制地址都能回到这里；播放时步骤变化频繁，稍作延迟再写
+  useEffect(() => {
+    if (!linkRestored || linkStepRef.current !== null) return;
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const hash = shareState.operations.length > 0 ? await encodeShareState(shareState) : '';
+      if (!cancelled) {
+        window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash}`);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [shareState, linkRestored]);
+  
+  const handleCopyLink = useCallback(async () => {
+    const hash = await encodeShareState(shareState);
+    await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}${window.location.search}${hash}`);
+  }, [shareState]);
+
   const currentStep = steps[playbackState.currentStep] || null;
+  
+  // 每个操作的第一个步骤，用于从结果对比表跳转
+  const operationStarts = useMemo(() => {
+    const starts = operations.map(() => -1);
+    for (const step of steps) {
+      if (step.opIndex !== undefined && starts[step.opIndex] === -1) {
+        starts[step.opIndex] = step.stepIndex;
+      }
+    }
+    return starts;
+  }, [operations, steps]);
+  
+  // 步骤只保存增量，按需从最近的检查点还原当前步骤的树
+  const snapshot = useMemo(
+    () => reconstructSnapshot(steps, playbackState.currentStep),
+    [steps, playbackState.currentStep],
+  );
 
   return (
     <div className="app">
-      <Header onShowAlgorithmIdea={() => setShowAlgorithmIdea(true)} />
+      <Header
+        onShowAlgorithmIdea={() => setShowAlgorithmIdea(true)}
+        onCopyLink={handleCopyLink}
+        canCopyLink={operations.length > 0}
+      />
       
       <DataInput
         onOperationsChange={handleOperationsChange}
+        onOperationsEdit={handleOperationsEdit}
         currentOperations={operations}
+        trieMode={trieMode}
+        onTrieModeChange={setTrieMode}
+        matchText={matchText}
+        onMatchTextChange={setMatchText}
+        expectedOutput={expectedOutput}
+        onExpectedOutputChange={setExpectedOutput}
       />
       
+      {expectedOutput.trim() && operations.length > 0 && (
+        <ResultVerification
+          operations={operations}
+          results={results}
+          expectedOutput={expectedOutput}
+          operationStarts={operationStarts}
+          onJumpToStep={handleSeek}
+        />
+      )}
+      
+      {generationError && (
+        <div className="generation-error">生成步骤失败：{generationError}</div>
+      )}
+      {linkBroken && (
+        <div className="generation-error">
+          分享链接已损坏，已按默认设置打开
+          <button className="error-dismiss" onClick={() => setLinkBroken(false)}>×</button>
+        </div>
+      )}
+      
       <div className="main-content">
         <div className="code-section">
           <CodePanel
             currentStep={currentStep}
             selectedLanguage={selectedLanguage}
             onLanguageChange={setSelectedLanguage}
+            trieMode={trieMode}
           />
         </div>
         
         <div className="canvas-section">
-          <TrieCanvas currentStep={currentStep} />
+          <TrieCanvas
+            currentStep={currentStep}
+            snapshot={snapshot}
+            speed={playbackState.speed}
+            layout={treeLayout}
+            onLayoutChange={setTreeLayout}
+            mode={trieMode}
+          />
         </div>
       </div>
       
@@ -163,6 +355,7 @@ function App() {
         onReset={handleReset}
         onSeek={handleSeek}
         onSpeedChange={handleSpeedChange}
+        generationProgress={generationProgress}
       />
       
       <AlgorithmIdeaModal
@@ -175,4 +368,29 @@ function App() {
   );
 }
 
+interface ResumePoint {
+  operation: Operation;
+  opIndex: number;
+  offset: number; // 在该操作的步骤中的偏移
+}
+
+// 优先跟随同一个操作（拖动排序后它的位置会变），它被修改或删除时退回原来的序号；
+// 偏移超出该操作的步骤数时停在它的最后一步，该操作被停用时停在后面第一个有步骤的操作上
+function findResumeStep(steps: AlgorithmStep[], operations: Operation[], resume: ResumePoint): number {
+  let opIndex = operations.indexOf(resume.operation);
+  if (opIndex === -1) {
+    opIndex = Math.min(resume.opIndex, operations.length - 1);
+  }
+  const start = steps.findIndex(step => step.opIndex !== undefined && step.opIndex >= opIndex);
+  if (start === -1) {
+    return Math.max(0, steps.length - 1);
+  }
+  const target = steps[start].opIndex;
+  let end = start;
+  while (end + 1 < steps.length && steps[end + 1].opIndex === target) {
+    end++;
+  }
+  return Math.min(start + (target === opIndex ? resume.offset : 0), end);
+}
+
 export default App;
@@ -0,0 +1,324 @@
+import type { TrieNode, AlgorithmStep, Operation, StepProgressHandler } from '../types';
+import { Trie } from './trie';
+import { StepRecorder } from './stepRecorder';
+import { traceOperation } from './tracer';
+import { insertTemplate } from './stepTemplates';
+
+// AC 自动机：在 Trie 的基础上用 BFS 为每个节点构建失败指针（指向当前路径最长真后缀对应的节点），
+// 匹配时失配就沿失败指针跳转，只需扫描一遍文本即可找出所有模式串的出现位置
+
+export interface AhoCorasickMatch {
+  word: string;
+  start: number;
+}
+
+// 构建失败指针时的回调，生成步骤时传入
+interface BuildListener {
+  followFail: (child: TrieNode, from: TrieNode, to: TrieNode, char: string) => void; // from 没有 char 的转移，跳到 to
+  setFail: (child: TrieNode, candidate: TrieNode, target: TrieNode, char: string) => void; // candidate 为停下的状态
+}
+
+// 匹配文本时的回调，生成步骤时传入
+interface MatchListener {
+  followFail: (from: TrieNode, to: TrieNode, char: string, index: number) => void;
+  transition: (from: TrieNode, to: TrieNode | null, char: string, index: number) => void; // to 为 null 表示停留在根
+  output: (match: AhoCorasickMatch, node: TrieNode, state: TrieNode, chain: TrieNode[], index: number) => void;
+}
+
+export class AhoCorasick extends Trie {
+  readonly fail = new Map<string, TrieNode>();
+  
+  override clear(): void {
+    super.clear();
+    this.fail.clear();
+  }
+  
+  setFail(node: TrieNode, target: TrieNode): void {
+    this.fail.set(node.id, target);
+    this.journal.setFail(node.id, target.id);
+  }
+  
+  // 按层 BFS 构建失败指针，父节点的失败指针总是先于子节点确定，返回状态总数
+  build(listener?: BuildListener): number {
+    const queue: TrieNode[] = [];
+    this.root.children.forEach((child, char) => {
+      this.setFail(child, this.root);
+      listener?.setFail(child, this.root, this.root, char);
+      queue.push(child);
+    });
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      node.children.forEach((child, char) => {
+        // 从父节点的失败指针出发，找第一个有字符 char 转移的状态
+        const candidate = this.fallback(this.fail.get(node.id)!, char, (from, to) => listener?.followFail(child, from, to, char));
+        const target = candidate.children.get(char) ?? this.root;
+        this.setFail(child, target);
+        listener?.setFail(child, candidate, target, char);
+        queue.push(child);
+      });
+    }
+    return queue.length + 1;
+  }
+  
+  // 从 state 出发沿失败指针回退，直到某个状态有字符 char 的转移或回到根
+  fallback(state: TrieNode, char: string, onFollow?: (from: TrieNode, to: TrieNode) => void): TrieNode {
+    let current = state;
+    while (current !== this.root && !current.children.has(char)) {
+      const next = this.fail.get(current.id)!;
+      onFollow?.(current, next);
+      current = next;
+    }
+    return current;
+  }
+  
+  match(text: string, listener?: MatchListener): AhoCorasickMatch[] {
+    const matches: AhoCorasickMatch[] = [];
+    let state = this.root;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      // 失配：沿失败指针回退，保留已匹配的最长后缀
+      const from = this.fallback(state, char, (current, next) => listener?.followFail(current, next, char, i));
+      const child = from.children.get(char) ?? null;
+      listener?.transition(from, child, char, i);
+      state = child ?? this.root;
+      // 沿失败指针链检查所有后缀，结尾节点都是一次匹配
+      const chain: TrieNode[] = [];
+      for (let node = state; node !== this.root; node = this.fail.get(node.id)!) {
+        if (node.isEnd) {
+          const match = { word: pathOf(node), start: i - node.depth + 1 };
+          matches.push(match);
+          listener?.output(match, node, state, [...chain], i);
+        }
+        chain.push(node);
+      }
+    }
+    return matches;
+  }
+}
+
+// 从根到 node 的字符串
+function pathOf(node: TrieNode): string {
+  let result = '';
+  for (let current: TrieNode | null = node; current?.parent; current = current.parent) {
+    result = current.char + result;
+  }
+  return result;
+}
+
+function stateName(node: TrieNode): string {
+  return node.parent ? `"${pathOf(node)}"` : '根';
+}
+
+function formatMatch(match: AhoCorasickMatch): string {
+  return `${match.word}@${match.start}`;
+}
+
+function failEdgeId(node: TrieNode): string {
+  return `fail:${node.id}`;
+}
+
+// 先用 insert 操作构建 Trie，再 BFS 构建失败指针，最后在 text 上做多模式匹配
+export function generateAhoCorasickSteps(
+  operations: Operation[],
+  text: string,
+  onProgress?: StepProgressHandler,
+): AlgorithmStep[] {
+  const ac = new AhoCorasick();
+  const recorder = new StepRecorder(ac.journal);
+  
+  recorder.push({
+    description: '初始化 AC 自动机，创建根节点（对应空串状态）',
+    highlightedNodes: [ac.root.id],
+    variables: {},
+    annotations: [{
+      nodeId: ac.root.id,
+      text: '根节点',
+      position: 'top',
+      type: 'info',
+    }],
+  });
+  
+  operations.forEach((op, opIndex) => {
+    recorder.opIndex = opIndex;
+    if (op.disabled) {
+      op.result = undefined; // 停用的操作没有执行，不能沿用上次的结果
+      recorder.flush(opIndex + 1, onProgress);
+      return;
+    }
+    if (op.type === 'insert') {
+      traceOperation(ac, recorder, op, insertTemplate);
+    } else if (op.type === 'reset') {
+      ac.clear();
+      recorder.push({
+        description: '再次调用构造函数，丢弃之前插入的所有模式串，重新开始',
+        highlightedNodes: [ac.root.id],
+        variables: {},
+        annotations: [{ nodeId: ac.root.id, text: '重置', position: 'top', type: 'action' }],
+      });
+    } else {
+      op.result = undefined;
+      recorder.push({
+        description: `AC 自动机模式只用 insert 添加模式串，跳过 ${op.type}("${op.word}")`,
+        highlightedNodes: [ac.root.id],
+        variables: { word: op.word },
+        annotations: [],
+      });
+    }
+    recorder.flush(opIndex + 1, onProgress);
+  });
+  
+  recorder.opIndex = undefined;
+  recordBuild(ac, recorder);
+  recordMatch(ac, recorder, text);
+  recorder.flush(operations.length, onProgress);
+  
+  return recorder.steps;
+}
+
+function recordBuild(ac: AhoCorasick, recorder: StepRecorder): void {
+  const root = ac.root;
+  
+  recorder.push({
+    description: '所有模式串插入完成，开始按层 BFS 构建失败指针',
+    highlightedNodes: [root.id],
+    variables: {},
+    annotations: [{ nodeId: root.id, text: '开始构建 fail', position: 'top', type: 'action' }],
+  });
+  
+  const states = ac.build({
+    followFail: (child, from, to, char) => {
+      recorder.push({
+        description: `为 ${stateName(child)} 找失败指针：${stateName(from)} 没有字符 '${char}' 的转移，继续沿失败指针跳到 ${stateName(to)}`,
+        highlightedNodes: [child.id, from.id, to.id],
+        highlightedEdges: [failEdgeId(from)],
+        currentChar: char,
+        variables: { node: pathOf(child), candidate: pathOf(from), char },
+        annotations: [{ nodeId: from.id, text: `没有 '${char}'`, position: 'right', type: 'info' }],
+        action: 'followFail',
+      });
+    },
+    setFail: (child, candidate, target, char) => {
+      if (child.depth === 1) {
+        recorder.push({
+          description: `第一层节点 '${child.char}' 的最长真后缀是空串，失败指针指向根`,
+          highlightedNodes: [root.id, child.id],
+          highlightedEdges: [failEdgeId(child)],
+          variables: { node: child.char, fail: 'root' },
+          annotations: [{ nodeId: child.id, text: 'fail → 根', position: 'right', type: 'action' }],
+          action: 'setFail',
+        });
+        return;
+      }
+      recorder.push({
+        description: target === root
+          ? `${stateName(candidate)} 也没有字符 '${char}' 的转移，${stateName(child)} 的失败指针指向根`
+          : `${stateName(candidate)} 有字符 '${char}' 的转移，${stateName(child)} 的失败指针指向 ${stateName(target)}`,
+        highlightedNodes: [child.id, target.id],
+        highlightedEdges: [failEdgeId(child)],
+        currentChar: char,
+        variables: { node: pathOf(child), fail: pathOf(target) || 'root' },
+        annotations: [{
+          nodeId: child.id,
+          text: `fail → ${target === root ? '根' : pathOf(target)}`,
+          position: 'right',
+          type: 'action',
+        }],
+        action: 'setFail',
+      });
+    },
+  });
+  
+  recorder.push({
+    description: '失败指针构建完成，AC 自动机就绪',
+    highlightedNodes: [root.id],
+    variables: { states },
+    annotations: [{ nodeId: root.id, text: '构建完成 ✓', position: 'top', type: 'result' }],
+  });
+}
+
+function recordMatch(ac: AhoCorasick, recorder: StepRecorder, text: string): void {
+  const root = ac.root;
+  const found: string[] = [];
+  
+  recorder.push({
+    description: `开始在文本 "${text}" 上做多模式匹配，初始状态为根`,
+    highlightedNodes: [root.id],
+    variables: { text, state: 'root' },
+    annotations: [{ nodeId: root.id, text: '当前状态', position: 'top', type: 'info' }],
+    textCursor: { text, index: -1 },
+    collectedWords: [],
+  });
+  
+  let state = root;
+  const matches = ac.match(text, {
+    followFail: (from, to, char, i) => {
+      recorder.push({
+        description: `状态 ${stateName(from)} 没有字符 '${char}' 的转移，沿失败指针跳到 ${stateName(to)}`,
+        highlightedNodes: [from.id, to.id],
+        highlightedEdges: [failEdgeId(from)],
+        currentChar: char,
+        currentCharIndex: i,
+        variables: { i, char, state: pathOf(to) || 'root' },
+        annotations: [{ nodeId: to.id, text: '当前状态', position: 'top', type: 'info' }],
+        textCursor: { text, index: i },
+        collectedWords: [...found],
+        action: 'followFail',
+      });
+    },
+    transition: (from, to, char, i) => {
+      state = to ?? root;
+      if (!to) {
+        recorder.push({
+          description: `根也没有字符 '${char}' 的转移，停留在根`,
+          highlightedNodes: [root.id],
+          currentChar: char,
+          currentCharIndex: i,
+          variables: { i, char, state: 'root' },
+          annotations: [{ nodeId: root.id, text: `没有 '${char}'`, position: 'top', type: 'info' }],
+          textCursor: { text, index: i },
+          collectedWords: [...found],
+        });
+        return;
+      }
+      recorder.push({
+        description: `读入 '${char}'，沿 Trie 边从 ${stateName(from)} 转移到 ${stateName(to)}`,
+        highlightedNodes: [from.id, to.id],
+        highlightedEdges: [`${from.id}->${to.id}`],
+        currentChar: char,
+        currentCharIndex: i,
+        variables: { i, char, state: pathOf(to) },
+        annotations: [{ nodeId: to.id, text: '当前状态', position: 'top', type: 'info' }],
+        textCursor: { text, index: i },
+        collectedWords: [...found],
+        action: 'moveToChild',
+      });
+    },
+    output: (match, node, current, chain, i) => {
+      found.push(formatMatch(match));
+      recorder.push({
+        description: node === current
+          ? `状态 ${stateName(node)} 是模式串结尾，输出匹配 "${match.word}"（起始位置 ${match.start}）`
+          : `沿失败指针链找到后缀 ${stateName(node)} 是模式串结尾，输出匹配 "${match.word}"（起始位置 ${match.start}）`,
+        highlightedNodes: [current.id, node.id],
+        highlightedEdges: chain.map(failEdgeId),
+        currentChar: text[i],
+        currentCharIndex: i,
+        variables: { i, char: text[i], state: pathOf(current), match: match.word, start: match.start },
+        annotations: [{ nodeId: node.id, text: `匹配 "${match.word}" ✓`, position: 'right', type: 'result' }],
+        textCursor: { text, index: i },
+        collectedWords: [...found],
+        action: 'emitMatch',
+      });
+    },
+  });
+  
+  recorder.push({
+    description: `文本扫描完成，共找到 ${matches.length} 个匹配`,
+    highlightedNodes: [state.id],
+    variables: { text, matches: matches.length },
+    annotations: [{ nodeId: state.id, text: `${matches.length} 个匹配`, position: 'top', type: 'result' }],
+    textCursor: { text, index: text.length },
+    collectedWords: matches.map(formatMatch),
+    action: 'returnResult',
+  });
+}
@@ -1,182 +1,589 @@
-import type { ProgrammingLanguage } from '../types';
+import type { AlgorithmStep, ProgrammingLanguage } from '../types';
 
 export interface CodeSnippet {
   language: ProgrammingLanguage;
   displayName: string;
   code: string;
   lineCount: number;
+  anchors: Map<string, number[]>; // 锚点名 -> 所在行号（从 1 开始）
+}
+
+// 步骤通过锚点名引用代码行，锚点以行尾注释的形式写在片段里（//@ name，Python 为 #@ name），
+// 加载时剥离并记录行号。改动片段时锚点随行移动，不会再出现行号漂移
+export const CODE_ANCHORS = [
+  'init',
+  'insert.begin', 'insert.create', 'insert.move', 'insert.markEnd',
+  'search.begin', 'search.return',
+  'prefix.fail', 'prefix.move', 'prefix.return',
+  'startsWith.begin', 'startsWith.return',
+  'countEqual.begin', 'countEqual.notFound', 'countEqual.return',
+  'countPrefix.begin', 'countPrefix.notFound', 'countPrefix.return',
+  'delete.begin', 'delete.loop', 'delete.fail', 'delete.move', 'delete.notEnd', 'delete.unmark',
+  'delete.backtrack', 'delete.decPass', 'delete.checkPrune', 'delete.prune', 'delete.end',
+  'autocomplete.begin', 'autocomplete.notFound', 'autocomplete.collect',
+  'autocomplete.topK', 'autocomplete.returnTopK', 'autocomplete.return',
+  'collect.begin', 'collect.word', 'collect.child',
+  'wildcard.begin', 'wildcard.call',
+  'match.end', 'match.isDot', 'match.loop', 'match.try', 'match.found', 'match.exhausted',
+  'match.readChar', 'match.child',
+] as const;
+
+export type CodeAnchor = typeof CODE_ANCHORS[number];
+
+export interface SnippetSource {
+  language: ProgrammingLanguage;
+  displayName: string;
+  source: string;
+}
+
+export function parseSnippet({ language, displayName, source }: SnippetSource): CodeSnippet {
+  const marker = language === 'python' ? '#@' : '//@';
+  const anchors = new Map<string, number[]>();
+  const lines = source.split('\n').map((line, index) => {
+    const at = line.indexOf(marker);
+    if (at === -1) return line;
+    for (const name of line.slice(at + marker.length).trim().split(/\s+/)) {
+      anchors.set(name, [...(anchors.get(name) ?? []), index + 1]);
+    }
+    return line.slice(0, at).trimEnd();
+  });
+  return { language, displayName, code: lines.join('\n'), lineCount: lines.length, anchors };
 }
 
 export const codeSnippets: Record<ProgrammingLanguage, CodeSnippet> = {
-  java: {
+  java: parseSnippet({
     language: 'java',
     displayName: 'Java',
-    code: `class Trie {
+    source: `class Trie {
     private Trie[] children;
     private boolean isEnd;
+    private int passCount;
+    private int endCount;
 
-    public Trie() {
-        children = new Trie[26];
-        isEnd = false;
+    public Trie() {  //@ init
+        children = new Trie[26];  //@ init
+        isEnd = false;  //@ init
     }
 
-    public void insert(String word) {
-        Trie node = this;
+    public void insert(String word) {  //@ insert.begin
+        Trie node = this;  //@ insert.begin
         for (char ch : word.toCharArray()) {
             int index = ch - 'a';
-            if (node.children[index] == null) {
-                node.children[index] = new Trie();
+            if (node.children[index] == null) {  //@ insert.create
+                node.children[index] = new Trie();  //@ insert.create
             }
-            node = node.children[index];
+            node = node.children[index];  //@ insert.move
+            node.passCount++;  //@ insert.move
         }
-        node.isEnd = true;
+        node.isEnd = true;  //@ insert.markEnd
+        node.endCount++;  //@ insert.markEnd
     }
 
-    public boolean search(String word) {
-        Trie node = searchPrefix(word);
-        return node != null && node.isEnd;
+    public boolean search(String word) {  //@ search.begin
+        Trie node = searchPrefix(word);  //@ search.begin
+        return node != null && node.isEnd;  //@ search.return
     }
 
     private Trie searchPrefix(String prefix) {
         Trie node = this;
         for (char ch : prefix.toCharArray()) {
             int index = ch - 'a';
-            if (node.children[index] == null) {
-                return null;
+            if (node.children[index] == null) {  //@ prefix.fail
+                return null;  //@ prefix.fail
             }
-            node = node.children[index];
+            node = node.children[index];  //@ prefix.move
         }
-        return node;
+        return node;  //@ prefix.return
+    }
+
+    public boolean startsWith(String prefix) {  //@ startsWith.begin
+        return searchPrefix(prefix) != null;  //@ startsWith.return
+    }
+
+    public int countWordsEqualTo(String word) {  //@ countEqual.begin
+        Trie node = searchPrefix(word);  //@ countEqual.begin
+        return node == null ? 0 : node.endCount;  //@ countEqual.notFound countEqual.return
     }
 
-    public boolean startsWith(String prefix) {
-        return searchPrefix(prefix) != null;
+    public int countWordsStartingWith(String prefix) {  //@ countPrefix.begin
+        Trie node = searchPrefix(prefix);  //@ countPrefix.begin
+        return node == null ? 0 : node.passCount;  //@ countPrefix.notFound countPrefix.return
+    }
+
+    public void delete(String word) {  //@ delete.begin
+        Trie[] path = new Trie[word.length() + 1];  //@ delete.begin
+        Trie node = this;  //@ delete.begin
+        path[0] = node;  //@ delete.begin
+        for (int i = 0; i < word.length(); i++) {  //@ delete.loop
+            int index = word.charAt(i) - 'a';  //@ delete.loop
+            if (node.children[index] == null) {  //@ delete.fail
+                return;  //@ delete.fail
+            }
+            node = node.children[index];  //@ delete.move
+            path[i + 1] = node;  //@ delete.move
+        }
+        if (!node.isEnd) {  //@ delete.notEnd
+            return;  //@ delete.notEnd
+        }
+        node.endCount--;  //@ delete.unmark
+        node.isEnd = node.endCount > 0;  //@ delete.unmark
+        for (int i = word.length(); i > 0; i--) {  //@ delete.backtrack
+            Trie cur = path[i];  //@ delete.backtrack
+            cur.passCount--;  //@ delete.decPass
+            if (cur.passCount == 0) {  //@ delete.checkPrune
+                path[i - 1].children[word.charAt(i - 1) - 'a'] = null;  //@ delete.prune
+            }
+        }  //@ delete.end
+    }  //@ delete.end
+
+    public List<String> autocomplete(String prefix, int k) {  //@ autocomplete.begin
+        List<String> words = new ArrayList<>();  //@ autocomplete.begin
+        Map<String, Integer> freq = new HashMap<>();  //@ autocomplete.begin
+        Trie node = searchPrefix(prefix);  //@ autocomplete.begin
+        if (node == null) {  //@ autocomplete.notFound
+            return words;  //@ autocomplete.notFound
+        }
+        node.collect(new StringBuilder(prefix), words, freq);  //@ autocomplete.collect
+        if (k > 0) {  //@ autocomplete.topK
+            words.sort((a, b) -> freq.get(b) - freq.get(a));  //@ autocomplete.topK
+            words = words.subList(0, Math.min(k, words.size()));  //@ autocomplete.topK
+        }
+        return words;  //@ autocomplete.returnTopK autocomplete.return
+    }
+
+    private void collect(StringBuilder path, List<String> words, Map<String, Integer> freq) {  //@ collect.begin
+        if (isEnd) {  //@ collect.word
+            words.add(path.toString());  //@ collect.word
+            freq.put(path.toString(), endCount);  //@ collect.word
+        }
+        for (int i = 0; i < 26; i++) {  //@ collect.child
+            if (children[i] != null) {  //@ collect.child
+                path.append((char) ('a' + i));  //@ collect.child
+                children[i].collect(path, words, freq);  //@ collect.child
+                path.deleteCharAt(path.length() - 1);
+            }
+        }
+    }
+
+    public boolean searchWildcard(String word) {  //@ wildcard.begin
+        return matchFrom(word, 0);  //@ wildcard.call
+    }
+
+    private boolean matchFrom(String word, int i) {
+        if (i == word.length()) {  //@ match.end
+            return isEnd;  //@ match.end
+        }
+        char ch = word.charAt(i);  //@ match.isDot match.readChar
+        if (ch == '.') {  //@ match.isDot
+            for (Trie child : children) {  //@ match.loop
+                if (child != null && child.matchFrom(word, i + 1)) {  //@ match.try
+                    return true;  //@ match.found
+                }
+            }
+            return false;  //@ match.exhausted
+        }
+        Trie child = children[ch - 'a'];  //@ match.child
+        return child != null && child.matchFrom(word, i + 1);  //@ match.child
     }
 }`,
-    lineCount: 40,
-  },
-  python: {
+  }),
+  python: parseSnippet({
     language: 'python',
     displayName: 'Python',
-    code: `class Trie:
-    def __init__(self):
-        self.children = {}
-        self.is_end = False
+    source: `class Trie:
+    def __init__(self):  #@ init
+        self.children = {}  #@ init
+        self.is_end = False  #@ init
+        self.pass_count = 0  #@ init
+        self.end_count = 0  #@ init
 
-    def insert(self, word: str) -> None:
-        node = self
+    def insert(self, word: str) -> None:  #@ insert.begin
+        node = self  #@ insert.begin
         for ch in word:
-            if ch not in node.children:
-                node.children[ch] = Trie()
-            node = node.children[ch]
-        node.is_end = True
+            if ch not in node.children:  #@ insert.create
+                node.children[ch] = Trie()  #@ insert.create
+            node = node.children[ch]  #@ insert.move
+            node.pass_count += 1  #@ insert.move
+        node.is_end = True  #@ insert.markEnd
+        node.end_count += 1  #@ insert.markEnd
 
-    def search(self, word: str) -> bool:
-        node = self._search_prefix(word)
-        return node is not None and node.is_end
+    def search(self, word: str) -> bool:  #@ search.begin
+        node = self._search_prefix(word)  #@ search.begin
+        return node is not None and node.is_end  #@ search.return
 
     def _search_prefix(self, prefix: str):
         node = self
         for ch in prefix:
-            if ch not in node.children:
-                return None
-            node = node.children[ch]
-        return node
-
-    def startsWith(self, prefix: str) -> bool:
-        return self._search_prefix(prefix) is not None`,
-    lineCount: 27,
-  },
-  golang: {
+            if ch not in node.children:  #@ prefix.fail
+                return None  #@ prefix.fail
+            node = node.children[ch]  #@ prefix.move
+        return node  #@ prefix.return
+
+    def startsWith(self, prefix: str) -> bool:  #@ startsWith.begin
+        return self._search_prefix(prefix) is not None  #@ startsWith.return
+
+    def countWordsEqualTo(self, word: str) -> int:  #@ countEqual.begin
+        node = self._search_prefix(word)  #@ countEqual.begin
+        return node.end_count if node else 0  #@ countEqual.notFound countEqual.return
+
+    def countWordsStartingWith(self, prefix: str) -> int:  #@ countPrefix.begin
+        node = self._search_prefix(prefix)  #@ countPrefix.begin
+        return node.pass_count if node else 0  #@ countPrefix.notFound countPrefix.return
+
+    def delete(self, word: str) -> None:  #@ delete.begin
+        path = [self]  #@ delete.begin
+        node = self  #@ delete.begin
+        for ch in word:  #@ delete.loop
+            if ch not in node.children:  #@ delete.fail
+                return  #@ delete.fail
+            node = node.children[ch]  #@ delete.move
+            path.append(node)  #@ delete.move
+        if not node.is_end:  #@ delete.notEnd
+            return  #@ delete.notEnd
+        node.end_count -= 1  #@ delete.unmark
+        node.is_end = node.end_count > 0  #@ delete.unmark
+        for i in range(len(word), 0, -1):  #@ delete.backtrack delete.end
+            cur = path[i]  #@ delete.backtrack
+            cur.pass_count -= 1  #@ delete.decPass
+            if cur.pass_count == 0:  #@ delete.checkPrune
+                del path[i - 1].children[word[i - 1]]  #@ delete.prune
+
+    def autocomplete(self, prefix: str, k: int = 0) -> list:  #@ autocomplete.begin
+        node = self._search_prefix(prefix)  #@ autocomplete.begin
+        if node is None:  #@ autocomplete.notFound
+            return []  #@ autocomplete.notFound
+        found = []  #@ autocomplete.collect
+        node._collect(prefix, found)  #@ autocomplete.collect
+        if k > 0:  #@ autocomplete.topK
+            found.sort(key=lambda item: -item[1])  #@ autocomplete.topK
+            found = found[:k]  #@ autocomplete.topK
+        return [word for word, _ in found]  #@ autocomplete.returnTopK autocomplete.return
+
+    def _collect(self, path: str, found: list) -> None:  #@ collect.begin
+        if self.is_end:  #@ collect.word
+            found.append((path, self.end_count))  #@ collect.word
+        for ch in sorted(self.children):  #@ collect.child
+            self.children[ch]._collect(path + ch, found)  #@ collect.child
+
+    def searchWildcard(self, word: str) -> bool:  #@ wildcard.begin
+        return self._match_from(word, 0)  #@ wildcard.call
+
+    def _match_from(self, word: str, i: int) -> bool:
+        if i == len(word):  #@ match.end
+            return self.is_end  #@ match.end
+        ch = word[i]  #@ match.isDot match.readChar
+        if ch == '.':  #@ match.isDot
+            for key in sorted(self.children):  #@ match.loop
+                if self.children[key]._match_from(word, i + 1):  #@ match.try
+                    return True  #@ match.found
+            return False  #@ match.exhausted
+        child = self.children.get(ch)  #@ match.child
+        return child is not None and child._match_from(word, i + 1)  #@ match.child`,
+  }),
+  golang: parseSnippet({
     language: 'golang',
     displayName: 'Go',
-    code: `type Trie struct {
-    children [26]*Trie
-    isEnd    bool
+    source: `type Trie struct {
+    children  [26]*Trie
+    isEnd     bool
+    passCount int
+    endCount  int
 }
 
-func Constructor() Trie {
-    return Trie{}
+func Constructor() Trie {  //@ init
+    return Trie{}  //@ init
 }
 
-func (t *Trie) Insert(word string) {
-    node := t
+func (t *Trie) Insert(word string) {  //@ insert.begin
+    node := t  //@ insert.begin
     for _, ch := range word {
         index := ch - 'a'
-        if node.children[index] == nil {
-            node.children[index] = &Trie{}
+        if node.children[index] == nil {  //@ insert.create
+            node.children[index] = &Trie{}  //@ insert.create
         }
-        node = node.children[index]
+        node = node.children[index]  //@ insert.move
+        node.passCount++  //@ insert.move
     }
-    node.isEnd = true
+    node.isEnd = true  //@ insert.markEnd
+    node.endCount++  //@ insert.markEnd
 }
 
-func (t *Trie) Search(word string) bool {
-    node := t.searchPrefix(word)
-    return node != nil && node.isEnd
+func (t *Trie) Search(word string) bool {  //@ search.begin
+    node := t.searchPrefix(word)  //@ search.begin
+    return node != nil && node.isEnd  //@ search.return
 }
 
 func (t *Trie) searchPrefix(prefix string) *Trie {
     node := t
     for _, ch := range prefix {
         index := ch - 'a'
-        if node.children[index] == nil {
-            return nil
+        if node.children[index] == nil {  //@ prefix.fail
+            return nil  //@ prefix.fail
         }
-        node = node.children[index]
+        node = node.children[index]  //@ prefix.move
+    }
+    return node  //@ prefix.return
+}
+
+func (t *Trie) StartsWith(prefix string) bool {  //@ startsWith.begin
+    return t.searchPrefix(prefix) != nil  //@ startsWith.return
+}
+
+func (t *Trie) CountWordsEqualTo(word string) int {  //@ countEqual.begin
+    node := t.searchPrefix(word)  //@ countEqual.begin
+    if node == nil {  //@ countEqual.notFound
+        return 0  //@ countEqual.notFound
+    }
+    return node.endCount  //@ countEqual.return
+}
+
+func (t *Trie) CountWordsStartingWith(prefix string) int {  //@ countPrefix.begin
+    node := t.searchPrefix(prefix)  //@ countPrefix.begin
+    if node == nil {  //@ countPrefix.notFound
+        return 0  //@ countPrefix.notFound
     }
-    return node
+    return node.passCount  //@ countPrefix.return
 }
 
-func (t *Trie) StartsWith(prefix string) bool {
-    return t.searchPrefix(prefix) != nil
+func (t *Trie) Delete(word string) {  //@ delete.begin
+    path := []*Trie{t}  //@ delete.begin
+    node := t  //@ delete.begin
+    for _, ch := range word {  //@ delete.loop
+        index := ch - 'a'  //@ delete.loop
+        if node.children[index] == nil {  //@ delete.fail
+            return  //@ delete.fail
+        }
+        node = node.children[index]  //@ delete.move
+        path = append(path, node)  //@ delete.move
+    }
+    if !node.isEnd {  //@ delete.notEnd
+        return  //@ delete.notEnd
+    }
+    node.endCount--  //@ delete.unmark
+    node.isEnd = node.endCount > 0  //@ delete.unmark
+    for i := len(word); i > 0; i-- {  //@ delete.backtrack
+        cur := path[i]  //@ delete.backtrack
+        cur.passCount--  //@ delete.decPass
+        if cur.passCount == 0 {  //@ delete.checkPrune
+            path[i-1].children[word[i-1]-'a'] = nil  //@ delete.prune
+        }
+    }  //@ delete.end
+}  //@ delete.end
+
+func (t *Trie) Autocomplete(prefix string, k int) []string {  //@ autocomplete.begin
+    node := t.searchPrefix(prefix)  //@ autocomplete.begin
+    if node == nil {  //@ autocomplete.notFound
+        return nil  //@ autocomplete.notFound
+    }
+    words, freq := []string{}, map[string]int{}  //@ autocomplete.collect
+    node.collect([]byte(prefix), &words, freq)  //@ autocomplete.collect
+    if k > 0 {  //@ autocomplete.topK
+        sort.SliceStable(words, func(i, j int) bool {  //@ autocomplete.topK
+            return freq[words[i]] > freq[words[j]]  //@ autocomplete.topK
+        })  //@ autocomplete.topK
+        words = words[:min(k, len(words))]  //@ autocomplete.topK
+    }
+    return words  //@ autocomplete.returnTopK autocomplete.return
+}
+
+func (t *Trie) collect(path []byte, words *[]string, freq map[string]int) {  //@ collect.begin
+    if t.isEnd {  //@ collect.word
+        *words = append(*words, string(path))  //@ collect.word
+        freq[string(path)] = t.endCount  //@ collect.word
+    }
+    for i, child := range t.children {  //@ collect.child
+        if child != nil {  //@ collect.child
+            child.collect(append(path, byte('a'+i)), words, freq)  //@ collect.child
+        }
+    }
+}
+
+func (t *Trie) SearchWildcard(word string) bool {  //@ wildcard.begin
+    return t.matchFrom(word, 0)  //@ wildcard.call
+}
+
+func (t *Trie) matchFrom(word string, i int) bool {
+    if i == len(word) {  //@ match.end
+        return t.isEnd  //@ match.end
+    }
+    if word[i] == '.' {  //@ match.isDot
+        for _, child := range t.children {  //@ match.loop
+            if child != nil && child.matchFrom(word, i+1) {  //@ match.try
+                return true  //@ match.found
+            }
+        }
+        return false  //@ match.exhausted
+    }
+    child := t.children[word[i]-'a']  //@ match.readChar match.child
+    return child != nil && child.matchFrom(word, i+1)  //@ match.child
 }`,
-    lineCount: 40,
-  },
-  javascript: {
+  }),
+  javascript: parseSnippet({
     language: 'javascript',
     displayName: 'JavaScript',
-    code: `class Trie {
-    constructor() {
-        this.children = {};
-        this.isEnd = false;
+    source: `class Trie {
+    constructor() {  //@ init
+        this.children = {};  //@ init
+        this.isEnd = false;  //@ init
+        this.passCount = 0;  //@ init
+        this.endCount = 0;  //@ init
     }
 
-    insert(word) {
-        let node = this;
+    insert(word) {  //@ insert.begin
+        let node = this;  //@ insert.begin
         for (const ch of word) {
-            if (!node.children[ch]) {
-                node.children[ch] = new Trie();
+            if (!node.children[ch]) {  //@ insert.create
+                node.children[ch] = new Trie();  //@ insert.create
             }
-            node = node.children[ch];
+            node = node.children[ch];  //@ insert.move
+            node.passCount++;  //@ insert.move
         }
-        node.isEnd = true;
+        node.isEnd = true;  //@ insert.markEnd
+        node.endCount++;  //@ insert.markEnd
     }
 
-    search(word) {
-        const node = this.searchPrefix(word);
-        return node !== null && node.isEnd;
+    search(word) {  //@ search.begin
+        const node = this.searchPrefix(word);  //@ search.begin
+        return node !== null && node.isEnd;  //@ search.return
     }
 
     searchPrefix(prefix) {
         let node = this;
         for (const ch of prefix) {
-            if (!node.children[ch]) {
-                return null;
+            if (!node.children[ch]) {  //@ prefix.fail
+                return null;  //@ prefix.fail
+            }
+            node = node.children[ch];  //@ prefix.move
+        }
+        return node;  //@ prefix.return
+    }
+
+    startsWith(prefix) {  //@ startsWith.begin
+        return this.searchPrefix(prefix) !== null;  //@ startsWith.return
+    }
+
+    countWordsEqualTo(word) {  //@ countEqual.begin
+        const node = this.searchPrefix(word);  //@ countEqual.begin
+        return node === null ? 0 : node.endCount;  //@ countEqual.notFound countEqual.return
+    }
+
+    countWordsStartingWith(prefix) {  //@ countPrefix.begin
+        const node = this.searchPrefix(prefix);  //@ countPrefix.begin
+        return node === null ? 0 : node.passCount;  //@ countPrefix.notFound countPrefix.return
+    }
+
+    delete(word) {  //@ delete.begin
+        const path = [this];  //@ delete.begin
+        let node = this;  //@ delete.begin
+        for (const ch of word) {  //@ delete.loop
+            if (!node.children[ch]) {  //@ delete.fail
+                return;  //@ delete.fail
             }
-            node = node.children[ch];
+            node = node.children[ch];  //@ delete.move
+            path.push(node);  //@ delete.move
+        }
+        if (!node.isEnd) {  //@ delete.notEnd
+            return;  //@ delete.notEnd
+        }
+        node.endCount--;  //@ delete.unmark
+        node.isEnd = node.endCount > 0;  //@ delete.unmark
+        for (let i = word.length; i > 0; i--) {  //@ delete.backtrack
+            const cur = path[i];  //@ delete.backtrack
+            cur.passCount--;  //@ delete.decPass
+            if (cur.passCount === 0) {  //@ delete.checkPrune
+                delete path[i - 1].children[word[i - 1]];  //@ delete.prune
+            }
+        }  //@ delete.end
+    }  //@ delete.end
+
+    autocomplete(prefix, k = 0) {  //@ autocomplete.begin
+        const node = this.searchPrefix(prefix);  //@ autocomplete.begin
+        if (node === null) {  //@ autocomplete.notFound
+            return [];  //@ autocomplete.notFound
+        }
+        const found = [];  //@ autocomplete.collect
+        node.collect(prefix, found);  //@ autocomplete.collect
+        if (k > 0) {  //@ autocomplete.topK
+            found.sort((a, b) => b.count - a.count);  //@ autocomplete.topK
+            return found.slice(0, k).map(item => item.word);  //@ autocomplete.topK autocomplete.returnTopK
+        }
+        return found.map(item => item.word);  //@ autocomplete.return
+    }
+
+    collect(path, found) {  //@ collect.begin
+        if (this.isEnd) {  //@ collect.word
+            found.push({ word: path, count: this.endCount });  //@ collect.word
+        }
+        for (const ch of Object.keys(this.children).sort()) {  //@ collect.child
+            this.children[ch].collect(path + ch, found);  //@ collect.child
         }
-        return node;
     }
 
-    startsWith(prefix) {
-        return this.searchPrefix(prefix) !== null;
+    searchWildcard(word) {  //@ wildcard.begin
+        return this.matchFrom(word, 0);  //@ wildcard.call
+    }
+
+    matchFrom(word, i) {
+        if (i === word.length) {  //@ match.end
+            return this.isEnd;  //@ match.end
+        }
+        const ch = word[i];  //@ match.isDot match.readChar
+        if (ch === '.') {  //@ match.isDot
+            for (const key of Object.keys(this.children).sort()) {  //@ match.loop
+                if (this.children[key].matchFrom(word, i + 1)) {  //@ match.try
+                    return true;  //@ match.found
+                }
+            }
+            return false;  //@ match.exhausted
+        }
+        const child = this.children[ch];  //@ match.child
+        return child !== undefined && child.matchFrom(word, i + 1);  //@ match.child
     }
 }`,
-    lineCount: 36,
-  },
+  }),
 };
 
+// 校验每种语言都包含全部锚点、且没有拼错的多余锚点；开发环境下直接抛错，避免高亮悄悄错位
+export function validateAnchors(
+  snippets: Record<ProgrammingLanguage, CodeSnippet>,
+  anchors: readonly string[],
+): void {
+  const known = new Set<string>(anchors);
+  const problems: string[] = [];
+  for (const snippet of Object.values(snippets)) {
+    const missing = anchors.filter(name => !snippet.anchors.has(name));
+    const unknown = [...snippet.anchors.keys()].filter(name => !known.has(name));
+    if (missing.length > 0) problems.push(`${snippet.displayName} 缺少锚点: ${missing.join(', ')}`);
+    if (unknown.length > 0) problems.push(`${snippet.displayName} 存在未声明的锚点: ${unknown.join(', ')}`);
+  }
+  if (problems.length > 0 && import.meta.env.DEV) {
+    throw new Error(`代码片段锚点校验失败\n${problems.join('\n')}`);
+  }
+}
+
+validateAnchors(codeSnippets, CODE_ANCHORS);
+
+// 把锚点解析成各语言的高亮行号，多个锚点按给出的顺序合并去重
+export function resolveCodeLines(
+  snippets: Record<ProgrammingLanguage, CodeSnippet>,
+  names: readonly string[],
+): AlgorithmStep['codeLineMap'] {
+  const resolve = (language: ProgrammingLanguage) => {
+    const lines = names.flatMap(name => snippets[language].anchors.get(name) ?? []);
+    return [...new Set(lines)];
+  };
+  return {
+    java: resolve('java'),
+    python: resolve('python'),
+    golang: resolve('golang'),
+    javascript: resolve('javascript'),
+  };
+}
+
+export function codeLines(...names: CodeAnchor[]): AlgorithmStep['codeLineMap'] {
+  return resolveCodeLines(codeSnippets, names);
+}
+
 export function getCodeSnippet(language: ProgrammingLanguage): CodeSnippet {
   return codeSnippets[language];
 }
@@ -0,0 +1,797 @@
+import type { AlgorithmStep, ProgrammingLanguage } from '../types';
+import { parseSnippet, resolveCodeLines, validateAnchors, type CodeSnippet } from './codeSnippets';
+
+// 压缩前缀树的代码片段，锚点写法与标准 Trie 相同；边上存整段字符串，匹配、拆分、合并都以边为单位
+export const RADIX_CODE_ANCHORS = [
+  'init',
+  'insert.begin', 'insert.create', 'insert.split', 'insert.move', 'insert.markEnd',
+  'split',
+  'search.begin', 'search.return',
+  'prefix.fail', 'prefix.compare', 'prefix.partial', 'prefix.mismatch', 'prefix.move', 'prefix.return',
+  'startsWith.begin', 'startsWith.return',
+  'countEqual.begin', 'countEqual.notFound', 'countEqual.return',
+  'countPrefix.begin', 'countPrefix.notFound', 'countPrefix.return',
+  'delete.begin', 'delete.loop', 'delete.fail', 'delete.move', 'delete.notEnd', 'delete.unmark',
+  'delete.backtrack', 'delete.decPass', 'delete.checkPrune', 'delete.prune', 'delete.merge', 'delete.end',
+  'merge',
+  'autocomplete.begin', 'autocomplete.notFound', 'autocomplete.collect',
+  'autocomplete.topK', 'autocomplete.returnTopK', 'autocomplete.return',
+  'collect.begin', 'collect.word', 'collect.child',
+  'wildcard.begin', 'wildcard.call',
+  'match.end', 'match.isDot', 'match.readChar', 'match.loop', 'match.child', 'match.mismatch',
+  'match.try', 'match.found', 'match.exhausted',
+] as const;
+
+export type RadixCodeAnchor = typeof RADIX_CODE_ANCHORS[number];
+
+export const radixCodeSnippets: Record<ProgrammingLanguage, CodeSnippet> = {
+  java: parseSnippet({
+    language: 'java',
+    displayName: 'Java',
+    source: `class RadixTrie {
+    static class Node {
+        String label;
+        TreeMap<Character, Node> children = new TreeMap<>();
+        boolean isEnd;
+        int passCount;
+        int endCount;
+
+        Node(String label) {
+            this.label = label;
+        }
+    }
+
+    record Found(Node node, String path) {}
+
+    private final Node root;
+
+    public RadixTrie() {  //@ init
+        root = new Node("");  //@ init
+    }
+
+    public void insert(String word) {  //@ insert.begin
+        Node node = root;  //@ insert.begin
+        int i = 0;  //@ insert.begin
+        while (i < word.length()) {
+            Node child = node.children.get(word.charAt(i));
+            if (child == null) {  //@ insert.create
+                child = new Node(word.substring(i));  //@ insert.create
+                node.children.put(word.charAt(i), child);  //@ insert.create
+            } else {
+                int common = commonPrefixLength(child.label, word, i);  //@ insert.split
+                if (common < child.label.length()) {  //@ insert.split
+                    child = split(node, child, common);  //@ insert.split
+                }
+            }
+            child.passCount++;  //@ insert.move
+            node = child;  //@ insert.move
+            i += child.label.length();  //@ insert.move
+        }
+        node.isEnd = true;  //@ insert.markEnd
+        node.endCount++;  //@ insert.markEnd
+    }
+
+    private Node split(Node parent, Node child, int at) {
+        Node middle = new Node(child.label.substring(0, at));  //@ split
+        middle.passCount = child.passCount;  //@ split
+        child.label = child.label.substring(at);  //@ split
+        middle.children.put(child.label.charAt(0), child);  //@ split
+        parent.children.put(middle.label.charAt(0), middle);  //@ split
+        return middle;  //@ split
+    }
+
+    public boolean search(String word) {  //@ search.begin
+        Found found = searchPrefix(word);  //@ search.begin
+        return found != null && found.path().equals(word) && found.node().isEnd;  //@ search.return
+    }
+
+    private Found searchPrefix(String prefix) {
+        Node node = root;
+        int i = 0;
+        while (i < prefix.length()) {
+            Node child = node.children.get(prefix.charAt(i));
+            if (child == null) {  //@ prefix.fail
+                return null;  //@ prefix.fail
+            }
+            int common = commonPrefixLength(child.label, prefix, i);  //@ prefix.compare
+            if (common < child.label.length()) {  //@ prefix.compare
+                if (i + common == prefix.length()) {  //@ prefix.partial
+                    return new Found(child, prefix.substring(0, i) + child.label);  //@ prefix.partial
+                }
+                return null;  //@ prefix.mismatch
+            }
+            node = child;  //@ prefix.move
+            i += common;  //@ prefix.move
+        }
+        return new Found(node, prefix);  //@ prefix.return
+    }
+
+    public boolean startsWith(String prefix) {  //@ startsWith.begin
+        return searchPrefix(prefix) != null;  //@ startsWith.return
+    }
+
+    public int countWordsEqualTo(String word) {  //@ countEqual.begin
+        Found found = searchPrefix(word);  //@ countEqual.begin
+        return found == null || !found.path().equals(word) ? 0 : found.node().endCount;  //@ countEqual.notFound countEqual.return
+    }
+
+    public int countWordsStartingWith(String prefix) {  //@ countPrefix.begin
+        Found found = searchPrefix(prefix);  //@ countPrefix.begin
+        return found == null ? 0 : found.node().passCount;  //@ countPrefix.notFound countPrefix.return
+    }
+
+    public void delete(String word) {  //@ delete.begin
+        List<Node> path = new ArrayList<>(List.of(root));  //@ delete.begin
+        Node node = root;  //@ delete.begin
+        int i = 0;  //@ delete.begin
+        while (i < word.length()) {  //@ delete.loop
+            Node child = node.children.get(word.charAt(i));  //@ delete.loop
+            if (child == null || !word.startsWith(child.label, i)) {  //@ delete.fail
+                return;  //@ delete.fail
+            }
+            node = child;  //@ delete.move
+            path.add(node);  //@ delete.move
+            i += child.label.length();  //@ delete.move
+        }
+        if (!node.isEnd) {  //@ delete.notEnd
+            return;  //@ delete.notEnd
+        }
+        node.endCount--;  //@ delete.unmark
+        node.isEnd = node.endCount > 0;  //@ delete.unmark
+        for (int j = path.size() - 1; j > 0; j--) {  //@ delete.backtrack
+            Node cur = path.get(j);  //@ delete.backtrack
+            cur.passCount--;  //@ delete.decPass
+            if (cur.passCount == 0) {  //@ delete.checkPrune
+                path.get(j - 1).children.remove(cur.label.charAt(0));  //@ delete.prune
+            }
+        }
+        int j = path.size() - 1;  //@ delete.merge
+        while (j > 0 && path.get(j).passCount == 0) {  //@ delete.merge
+            j--;  //@ delete.merge
+        }
+        Node last = path.get(j);  //@ delete.merge
+        if (j > 0 && !last.isEnd && last.children.size() == 1) {  //@ delete.merge
+            merge(path.get(j - 1), last);  //@ delete.merge
+        }
+    }  //@ delete.end
+
+    private void merge(Node parent, Node node) {
+        Node child = node.children.firstEntry().getValue();  //@ merge
+        child.label = node.label + child.label;  //@ merge
+        parent.children.put(child.label.charAt(0), child);  //@ merge
+    }
+
+    public List<String> autocomplete(String prefix, int k) {  //@ autocomplete.begin
+        List<String> words = new ArrayList<>();  //@ autocomplete.begin
+        Map<String, Integer> freq = new HashMap<>();  //@ autocomplete.begin
+        Found found = searchPrefix(prefix);  //@ autocomplete.begin
+        if (found == null) {  //@ autocomplete.notFound
+            return words;  //@ autocomplete.notFound
+        }
+        collect(found.node(), found.path(), words, freq);  //@ autocomplete.collect
+        if (k > 0) {  //@ autocomplete.topK
+            words.sort((a, b) -> freq.get(b) - freq.get(a));  //@ autocomplete.topK
+            words = words.subList(0, Math.min(k, words.size()));  //@ autocomplete.topK
+        }
+        return words;  //@ autocomplete.returnTopK autocomplete.return
+    }
+
+    private void collect(Node node, String path, List<String> words, Map<String, Integer> freq) {  //@ collect.begin
+        if (node.isEnd) {  //@ collect.word
+            words.add(path);  //@ collect.word
+            freq.put(path, node.endCount);  //@ collect.word
+        }
+        for (Node child : node.children.values()) {  //@ collect.child
+            collect(child, path + child.label, words, freq);  //@ collect.child
+        }
+    }
+
+    public boolean searchWildcard(String word) {  //@ wildcard.begin
+        return matchFrom(root, word, 0);  //@ wildcard.call
+    }
+
+    private boolean matchFrom(Node node, String word, int i) {
+        if (i == word.length()) {  //@ match.end
+            return node.isEnd;  //@ match.end
+        }
+        char ch = word.charAt(i);  //@ match.isDot match.readChar
+        Collection<Node> candidates = ch == '.'  //@ match.isDot
+                ? node.children.values()  //@ match.isDot
+                : Collections.singletonList(node.children.get(ch));  //@ match.isDot
+        for (Node child : candidates) {  //@ match.loop match.child
+            if (child == null || !labelMatches(child.label, word, i)) {  //@ match.mismatch
+                continue;  //@ match.mismatch
+            }
+            if (matchFrom(child, word, i + child.label.length())) {  //@ match.try
+                return true;  //@ match.found
+            }
+        }
+        return false;  //@ match.exhausted
+    }
+
+    private static int commonPrefixLength(String label, String word, int start) {
+        int n = 0;
+        while (n < label.length() && start + n < word.length() && label.charAt(n) == word.charAt(start + n)) {
+            n++;
+        }
+        return n;
+    }
+
+    private static boolean labelMatches(String label, String word, int start) {
+        if (start + label.length() > word.length()) {
+            return false;
+        }
+        for (int j = 0; j < label.length(); j++) {
+            char p = word.charAt(start + j);
+            if (p != '.' && p != label.charAt(j)) {
+                return false;
+            }
+        }
+        return true;
+    }
+}`,
+  }),
+  python: parseSnippet({
+    language: 'python',
+    displayName: 'Python',
+    source: `class RadixNode:
+    def __init__(self, label: str):
+        self.label = label
+        self.children = {}
+        self.is_end = False
+        self.pass_count = 0
+        self.end_count = 0
+
+
+def common_prefix_length(label: str, word: str, start: int) -> int:
+    n = 0
+    while n < len(label) and start + n < len(word) and label[n] == word[start + n]:
+        n += 1
+    return n
+
+
+def label_matches(label: str, word: str, start: int) -> bool:
+    if start + len(label) > len(word):
+        return False
+    return all(word[start + j] in ('.', ch) for j, ch in enumerate(label))
+
+
+class RadixTrie:
+    def __init__(self):  #@ init
+        self.root = RadixNode('')  #@ init
+
+    def insert(self, word: str) -> None:  #@ insert.begin
+        node, i = self.root, 0  #@ insert.begin
+        while i < len(word):
+            child = node.children.get(word[i])
+            if child is None:  #@ insert.create
+                child = RadixNode(word[i:])  #@ insert.create
+                node.children[word[i]] = child  #@ insert.create
+            else:
+                common = common_prefix_length(child.label, word, i)  #@ insert.split
+                if common < len(child.label):  #@ insert.split
+                    child = self._split(node, child, common)  #@ insert.split
+            child.pass_count += 1  #@ insert.move
+            node = child  #@ insert.move
+            i += len(child.label)  #@ insert.move
+        node.is_end = True  #@ insert.markEnd
+        node.end_count += 1  #@ insert.markEnd
+
+    def _split(self, parent, child, at: int):
+        middle = RadixNode(child.label[:at])  #@ split
+        middle.pass_count = child.pass_count  #@ split
+        child.label = child.label[at:]  #@ split
+        middle.children[child.label[0]] = child  #@ split
+        parent.children[middle.label[0]] = middle  #@ split
+        return middle  #@ split
+
+    def search(self, word: str) -> bool:  #@ search.begin
+        found = self._search_prefix(word)  #@ search.begin
+        return found is not None and found[1] == word and found[0].is_end  #@ search.return
+
+    def _search_prefix(self, prefix: str):
+        node, i = self.root, 0
+        while i < len(prefix):
+            child = node.children.get(prefix[i])
+            if child is None:  #@ prefix.fail
+                return None  #@ prefix.fail
+            common = common_prefix_length(child.label, prefix, i)  #@ prefix.compare
+            if common < len(child.label):  #@ prefix.compare
+                if i + common == len(prefix):  #@ prefix.partial
+                    return child, prefix[:i] + child.label  #@ prefix.partial
+                return None  #@ prefix.mismatch
+            node = child  #@ prefix.move
+            i += common  #@ prefix.move
+        return node, prefix  #@ prefix.return
+
+    def startsWith(self, prefix: str) -> bool:  #@ startsWith.begin
+        return self._search_prefix(prefix) is not None  #@ startsWith.return
+
+    def countWordsEqualTo(self, word: str) -> int:  #@ countEqual.begin
+        found = self._search_prefix(word)  #@ countEqual.begin
+        return found[0].end_count if found and found[1] == word else 0  #@ countEqual.notFound countEqual.return
+
+    def countWordsStartingWith(self, prefix: str) -> int:  #@ countPrefix.begin
+        found = self._search_prefix(prefix)  #@ countPrefix.begin
+        return found[0].pass_count if found else 0  #@ countPrefix.notFound countPrefix.return
+
+    def delete(self, word: str) -> None:  #@ delete.begin
+        path = [self.root]  #@ delete.begin
+        node, i = self.root, 0  #@ delete.begin
+        while i < len(word):  #@ delete.loop
+            child = node.children.get(word[i])  #@ delete.loop
+            if child is None or not word.startswith(child.label, i):  #@ delete.fail
+                return  #@ delete.fail
+            node = child  #@ delete.move
+            path.append(node)  #@ delete.move
+            i += len(child.label)  #@ delete.move
+        if not node.is_end:  #@ delete.notEnd
+            return  #@ delete.notEnd
+        node.end_count -= 1  #@ delete.unmark
+        node.is_end = node.end_count > 0  #@ delete.unmark
+        for j in range(len(path) - 1, 0, -1):  #@ delete.backtrack
+            cur = path[j]  #@ delete.backtrack
+            cur.pass_count -= 1  #@ delete.decPass
+            if cur.pass_count == 0:  #@ delete.checkPrune
+                del path[j - 1].children[cur.label[0]]  #@ delete.prune
+        j = len(path) - 1  #@ delete.merge
+        while j > 0 and path[j].pass_count == 0:  #@ delete.merge
+            j -= 1  #@ delete.merge
+        last = path[j]  #@ delete.merge
+        if j > 0 and not last.is_end and len(last.children) == 1:  #@ delete.merge delete.end
+            self._merge(path[j - 1], last)  #@ delete.merge delete.end
+
+    def _merge(self, parent, node) -> None:
+        child = next(iter(node.children.values()))  #@ merge
+        child.label = node.label + child.label  #@ merge
+        parent.children[child.label[0]] = child  #@ merge
+
+    def autocomplete(self, prefix: str, k: int = 0) -> list:  #@ autocomplete.begin
+        found = self._search_prefix(prefix)  #@ autocomplete.begin
+        if found is None:  #@ autocomplete.notFound
+            return []  #@ autocomplete.notFound
+        words = []  #@ autocomplete.collect
+        self._collect(found[0], found[1], words)  #@ autocomplete.collect
+        if k > 0:  #@ autocomplete.topK
+            words.sort(key=lambda item: -item[1])  #@ autocomplete.topK
+            words = words[:k]  #@ autocomplete.topK
+        return [word for word, _ in words]  #@ autocomplete.returnTopK autocomplete.return
+
+    def _collect(self, node, path: str, words: list) -> None:  #@ collect.begin
+        if node.is_end:  #@ collect.word
+            words.append((path, node.end_count))  #@ collect.word
+        for key in sorted(node.children):  #@ collect.child
+            child = node.children[key]  #@ collect.child
+            self._collect(child, path + child.label, words)  #@ collect.child
+
+    def searchWildcard(self, word: str) -> bool:  #@ wildcard.begin
+        return self._match_from(self.root, word, 0)  #@ wildcard.call
+
+    def _match_from(self, node, word: str, i: int) -> bool:
+        if i == len(word):  #@ match.end
+            return node.is_end  #@ match.end
+        ch = word[i]  #@ match.isDot match.readChar
+        keys = sorted(node.children) if ch == '.' else [ch]  #@ match.isDot
+        for key in keys:  #@ match.loop
+            child = node.children.get(key)  #@ match.child
+            if child is None or not label_matches(child.label, word, i):  #@ match.mismatch
+                continue  #@ match.mismatch
+            if self._match_from(child, word, i + len(child.label)):  #@ match.try
+                return True  #@ match.found
+        return False  #@ match.exhausted`,
+  }),
+  golang: parseSnippet({
+    language: 'golang',
+    displayName: 'Go',
+    source: `type RadixNode struct {
+    label     string
+    children  map[byte]*RadixNode
+    isEnd     bool
+    passCount int
+    endCount  int
+}
+
+type RadixTrie struct {
+    root *RadixNode
+}
+
+func newNode(label string) *RadixNode {
+    return &RadixNode{label: label, children: map[byte]*RadixNode{}}
+}
+
+func Constructor() RadixTrie {  //@ init
+    return RadixTrie{root: newNode("")}  //@ init
+}
+
+func (t *RadixTrie) Insert(word string) {  //@ insert.begin
+    node, i := t.root, 0  //@ insert.begin
+    for i < len(word) {
+        child := node.children[word[i]]
+        if child == nil {  //@ insert.create
+            child = newNode(word[i:])  //@ insert.create
+            node.children[word[i]] = child  //@ insert.create
+        } else if common := commonPrefixLength(child.label, word, i); common < len(child.label) {  //@ insert.split
+            child = split(node, child, common)  //@ insert.split
+        }
+        child.passCount++  //@ insert.move
+        node = child  //@ insert.move
+        i += len(child.label)  //@ insert.move
+    }
+    node.isEnd = true  //@ insert.markEnd
+    node.endCount++  //@ insert.markEnd
+}
+
+func split(parent, child *RadixNode, at int) *RadixNode {
+    middle := newNode(child.label[:at])  //@ split
+    middle.passCount = child.passCount  //@ split
+    child.label = child.label[at:]  //@ split
+    middle.children[child.label[0]] = child  //@ split
+    parent.children[middle.label[0]] = middle  //@ split
+    return middle  //@ split
+}
+
+func (t *RadixTrie) Search(word string) bool {  //@ search.begin
+    node, path := t.searchPrefix(word)  //@ search.begin
+    return node != nil && path == word && node.isEnd  //@ search.return
+}
+
+func (t *RadixTrie) searchPrefix(prefix string) (*RadixNode, string) {
+    node, i := t.root, 0
+    for i < len(prefix) {
+        child := node.children[prefix[i]]
+        if child == nil {  //@ prefix.fail
+            return nil, ""  //@ prefix.fail
+        }
+        common := commonPrefixLength(child.label, prefix, i)  //@ prefix.compare
+        if common < len(child.label) {  //@ prefix.compare
+            if i+common == len(prefix) {  //@ prefix.partial
+                return child, prefix[:i] + child.label  //@ prefix.partial
+            }
+            return nil, ""  //@ prefix.mismatch
+        }
+        node = child  //@ prefix.move
+        i += common  //@ prefix.move
+    }
+    return node, prefix  //@ prefix.return
+}
+
+func (t *RadixTrie) StartsWith(prefix string) bool {  //@ startsWith.begin
+    node, _ := t.searchPrefix(prefix)  //@ startsWith.begin
+    return node != nil  //@ startsWith.return
+}
+
+func (t *RadixTrie) CountWordsEqualTo(word string) int {  //@ countEqual.begin
+    node, path := t.searchPrefix(word)  //@ countEqual.begin
+    if node == nil || path != word {  //@ countEqual.notFound
+        return 0  //@ countEqual.notFound
+    }
+    return node.endCount  //@ countEqual.return
+}
+
+func (t *RadixTrie) CountWordsStartingWith(prefix string) int {  //@ countPrefix.begin
+    node, _ := t.searchPrefix(prefix)  //@ countPrefix.begin
+    if node == nil {  //@ countPrefix.notFound
+        return 0  //@ countPrefix.notFound
+    }
+    return node.passCount  //@ countPrefix.return
+}
+
+func (t *RadixTrie) Delete(word string) {  //@ delete.begin
+    path := []*RadixNode{t.root}  //@ delete.begin
+    node, i := t.root, 0  //@ delete.begin
+    for i < len(word) {  //@ delete.loop
+        child := node.children[word[i]]  //@ delete.loop
+        if child == nil || !strings.HasPrefix(word[i:], child.label) {  //@ delete.fail
+            return  //@ delete.fail
+        }
+        node = child  //@ delete.move
+        path = append(path, node)  //@ delete.move
+        i += len(child.label)  //@ delete.move
+    }
+    if !node.isEnd {  //@ delete.notEnd
+        return  //@ delete.notEnd
+    }
+    node.endCount--  //@ delete.unmark
+    node.isEnd = node.endCount > 0  //@ delete.unmark
+    for j := len(path) - 1; j > 0; j-- {  //@ delete.backtrack
+        cur := path[j]  //@ delete.backtrack
+        cur.passCount--  //@ delete.decPass
+        if cur.passCount == 0 {  //@ delete.checkPrune
+            delete(path[j-1].children, cur.label[0])  //@ delete.prune
+        }
+    }
+    j := len(path) - 1  //@ delete.merge
+    for j > 0 && path[j].passCount == 0 {  //@ delete.merge
+        j--  //@ delete.merge
+    }
+    if last := path[j]; j > 0 && !last.isEnd && len(last.children) == 1 {  //@ delete.merge
+        merge(path[j-1], last)  //@ delete.merge
+    }
+}  //@ delete.end
+
+func merge(parent, node *RadixNode) {
+    for _, child := range node.children {  //@ merge
+        child.label = node.label + child.label  //@ merge
+        parent.children[child.label[0]] = child  //@ merge
+    }  //@ merge
+}
+
+func (t *RadixTrie) Autocomplete(prefix string, k int) []string {  //@ autocomplete.begin
+    node, path := t.searchPrefix(prefix)  //@ autocomplete.begin
+    if node == nil {  //@ autocomplete.notFound
+        return nil  //@ autocomplete.notFound
+    }
+    words, freq := []string{}, map[string]int{}  //@ autocomplete.collect
+    node.collect(path, &words, freq)  //@ autocomplete.collect
+    if k > 0 {  //@ autocomplete.topK
+        sort.SliceStable(words, func(i, j int) bool {  //@ autocomplete.topK
+            return freq[words[i]] > freq[words[j]]  //@ autocomplete.topK
+        })  //@ autocomplete.topK
+        words = words[:min(k, len(words))]  //@ autocomplete.topK
+    }
+    return words  //@ autocomplete.returnTopK autocomplete.return
+}
+
+func (n *RadixNode) collect(path string, words *[]string, freq map[string]int) {  //@ collect.begin
+    if n.isEnd {  //@ collect.word
+        *words = append(*words, path)  //@ collect.word
+        freq[path] = n.endCount  //@ collect.word
+    }
+    for _, key := range n.sortedKeys() {  //@ collect.child
+        child := n.children[key]  //@ collect.child
+        child.collect(path+child.label, words, freq)  //@ collect.child
+    }
+}
+
+func (n *RadixNode) sortedKeys() []byte {
+    keys := make([]byte, 0, len(n.children))
+    for key := range n.children {
+        keys = append(keys, key)
+    }
+    sort.Slice(keys, func(i, j int) bool { return keys[i] < keys[j] })
+    return keys
+}
+
+func (t *RadixTrie) SearchWildcard(word string) bool {  //@ wildcard.begin
+    return t.root.matchFrom(word, 0)  //@ wildcard.call
+}
+
+func (n *RadixNode) matchFrom(word string, i int) bool {
+    if i == len(word) {  //@ match.end
+        return n.isEnd  //@ match.end
+    }
+    keys := []byte{word[i]}  //@ match.readChar
+    if word[i] == '.' {  //@ match.isDot
+        keys = n.sortedKeys()  //@ match.isDot
+    }
+    for _, key := range keys {  //@ match.loop
+        child := n.children[key]  //@ match.child
+        if child == nil || !labelMatches(child.label, word, i) {  //@ match.mismatch
+            continue  //@ match.mismatch
+        }
+        if child.matchFrom(word, i+len(child.label)) {  //@ match.try
+            return true  //@ match.found
+        }
+    }
+    return false  //@ match.exhausted
+}
+
+func commonPrefixLength(label, word string, start int) int {
+    n := 0
+    for n < len(label) && start+n < len(word) && label[n] == word[start+n] {
+        n++
+    }
+    return n
+}
+
+func labelMatches(label, word string, start int) bool {
+    if start+len(label) > len(word) {
+        return false
+    }
+    for j := 0; j < len(label); j++ {
+        if word[start+j] != '.' && word[start+j] != label[j] {
+            return false
+        }
+    }
+    return true
+}`,
+  }),
+  javascript: parseSnippet({
+    language: 'javascript',
+    displayName: 'JavaScript',
+    source: `class RadixNode {
+    constructor(label) {
+        this.label = label;
+        this.children = {};
+        this.isEnd = false;
+        this.passCount = 0;
+        this.endCount = 0;
+    }
+}
+
+function commonPrefixLength(label, word, start) {
+    let n = 0;
+    while (n < label.length && start + n < word.length && label[n] === word[start + n]) {
+        n++;
+    }
+    return n;
+}
+
+function labelMatches(label, word, start) {
+    if (start + label.length > word.length) {
+        return false;
+    }
+    return [...label].every((ch, j) => word[start + j] === '.' || word[start + j] === ch);
+}
+
+class RadixTrie {
+    constructor() {  //@ init
+        this.root = new RadixNode('');  //@ init
+    }
+
+    insert(word) {  //@ insert.begin
+        let node = this.root;  //@ insert.begin
+        let i = 0;  //@ insert.begin
+        while (i < word.length) {
+            let child = node.children[word[i]];
+            if (child === undefined) {  //@ insert.create
+                child = new RadixNode(word.slice(i));  //@ insert.create
+                node.children[word[i]] = child;  //@ insert.create
+            } else {
+                const common = commonPrefixLength(child.label, word, i);  //@ insert.split
+                if (common < child.label.length) {  //@ insert.split
+                    child = this.split(node, child, common);  //@ insert.split
+                }
+            }
+            child.passCount++;  //@ insert.move
+            node = child;  //@ insert.move
+            i += child.label.length;  //@ insert.move
+        }
+        node.isEnd = true;  //@ insert.markEnd
+        node.endCount++;  //@ insert.markEnd
+    }
+
+    split(parent, child, at) {
+        const middle = new RadixNode(child.label.slice(0, at));  //@ split
+        middle.passCount = child.passCount;  //@ split
+        child.label = child.label.slice(at);  //@ split
+        middle.children[child.label[0]] = child;  //@ split
+        parent.children[middle.label[0]] = middle;  //@ split
+        return middle;  //@ split
+    }
+
+    search(word) {  //@ search.begin
+        const found = this.searchPrefix(word);  //@ search.begin
+        return found !== null && found.path === word && found.node.isEnd;  //@ search.return
+    }
+
+    searchPrefix(prefix) {
+        let node = this.root;
+        let i = 0;
+        while (i < prefix.length) {
+            const child = node.children[prefix[i]];
+            if (child === undefined) {  //@ prefix.fail
+                return null;  //@ prefix.fail
+            }
+            const common = commonPrefixLength(child.label, prefix, i);  //@ prefix.compare
+            if (common < child.label.length) {  //@ prefix.compare
+                if (i + common === prefix.length) {  //@ prefix.partial
+                    return { node: child, path: prefix.slice(0, i) + child.label };  //@ prefix.partial
+                }
+                return null;  //@ prefix.mismatch
+            }
+            node = child;  //@ prefix.move
+            i += common;  //@ prefix.move
+        }
+        return { node, path: prefix };  //@ prefix.return
+    }
+
+    startsWith(prefix) {  //@ startsWith.begin
+        return this.searchPrefix(prefix) !== null;  //@ startsWith.return
+    }
+
+    countWordsEqualTo(word) {  //@ countEqual.begin
+        const found = this.searchPrefix(word);  //@ countEqual.begin
+        return found === null || found.path !== word ? 0 : found.node.endCount;  //@ countEqual.notFound countEqual.return
+    }
+
+    countWordsStartingWith(prefix) {  //@ countPrefix.begin
+        const found = this.searchPrefix(prefix);  //@ countPrefix.begin
+        return found === null ? 0 : found.node.passCount;  //@ countPrefix.notFound countPrefix.return
+    }
+
+    delete(word) {  //@ delete.begin
+        const path = [this.root];  //@ delete.begin
+        let node = this.root;  //@ delete.begin
+        let i = 0;  //@ delete.begin
+        while (i < word.length) {  //@ delete.loop
+            const child = node.children[word[i]];  //@ delete.loop
+            if (child === undefined || !word.startsWith(child.label, i)) {  //@ delete.fail
+                return;  //@ delete.fail
+            }
+            node = child;  //@ delete.move
+            path.push(node);  //@ delete.move
+            i += child.label.length;  //@ delete.move
+        }
+        if (!node.isEnd) {  //@ delete.notEnd
+            return;  //@ delete.notEnd
+        }
+        node.endCount--;  //@ delete.unmark
+        node.isEnd = node.endCount > 0;  //@ delete.unmark
+        for (let j = path.length - 1; j > 0; j--) {  //@ delete.backtrack
+            const cur = path[j];  //@ delete.backtrack
+            cur.passCount--;  //@ delete.decPass
+            if (cur.passCount === 0) {  //@ delete.checkPrune
+                delete path[j - 1].children[cur.label[0]];  //@ delete.prune
+            }
+        }
+        let j = path.length - 1;  //@ delete.merge
+        while (j > 0 && path[j].passCount === 0) {  //@ delete.merge
+            j--;  //@ delete.merge
+        }
+        const last = path[j];  //@ delete.merge
+        if (j > 0 && !last.isEnd && Object.keys(last.children).length === 1) {  //@ delete.merge
+            this.merge(path[j - 1], last);  //@ delete.merge
+        }
+    }  //@ delete.end
+
+    merge(parent, node) {
+        const child = Object.values(node.children)[0];  //@ merge
+        child.label = node.label + child.label;  //@ merge
+        parent.children[child.label[0]] = child;  //@ merge
+    }
+
+    autocomplete(prefix, k = 0) {  //@ autocomplete.begin
+        const found = this.searchPrefix(prefix);  //@ autocomplete.begin
+        if (found === null) {  //@ autocomplete.notFound
+            return [];  //@ autocomplete.notFound
+        }
+        const words = [];  //@ autocomplete.collect
+        this.collect(found.node, found.path, words);  //@ autocomplete.collect
+        if (k > 0) {  //@ autocomplete.topK
+            words.sort((a, b) => b.count - a.count);  //@ autocomplete.topK
+            return words.slice(0, k).map(item => item.word);  //@ autocomplete.topK autocomplete.returnTopK
+        }
+        return words.map(item => item.word);  //@ autocomplete.return
+    }
+
+    collect(node, path, words) {  //@ collect.begin
+        if (node.isEnd) {  //@ collect.word
+            words.push({ word: path, count: node.endCount });  //@ collect.word
+        }
+        for (const key of Object.keys(node.children).sort()) {  //@ collect.child
+            const child = node.children[key];  //@ collect.child
+            this.collect(child, path + child.label, words);  //@ collect.child
+        }
+    }
+
+    searchWildcard(word) {  //@ wildcard.begin
+        return this.matchFrom(this.root, word, 0);  //@ wildcard.call
+    }
+
+    matchFrom(node, word, i) {
+        if (i === word.length) {  //@ match.end
+            return node.isEnd;  //@ match.end
+        }
+        const ch = word[i];  //@ match.isDot match.readChar
+        const keys = ch === '.' ? Object.keys(node.children).sort() : [ch];  //@ match.isDot
+        for (const key of keys) {  //@ match.loop
+            const child = node.children[key];  //@ match.child
+            if (child === undefined || !labelMatches(child.label, word, i)) {  //@ match.mismatch
+                continue;  //@ match.mismatch
+            }
+            if (this.matchFrom(child, word, i + child.label.length)) {  //@ match.try
+                return true;  //@ match.found
+            }
+        }
+        return false;  //@ match.exhausted
+    }
+}`,
+  }),
+};
+
+validateAnchors(radixCodeSnippets, RADIX_CODE_ANCHORS);
+
+export function radixCodeLines(...names: RadixCodeAnchor[]): AlgorithmStep['codeLineMap'] {
+  return resolveCodeLines(radixCodeSnippets, names);
+}
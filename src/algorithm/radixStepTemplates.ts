@@ -0,0 +1,631 @@
+import type { OperationType, RadixNode } from '../types';
+import type { OperationTemplate, RadixEvent, StepSpec, TraceContext } from './tracer';
+import type { RadixTrie } from './radixTrie';
+import { radixCodeLines, type RadixCodeAnchor } from './radixCodeSnippets';
+
+// 压缩前缀树各操作的步骤描述模板，结构与标准 Trie 的模板一致，只是以整条边为单位描述匹配过程
+
+type RadixTemplate = OperationTemplate<RadixTrie>;
+type RadixContext = TraceContext<RadixNode>;
+type MoveEvent = Extract<RadixEvent, { type: 'visit' }>;
+type FailEvent = Extract<RadixEvent, { type: 'fail' }>;
+type PartialEvent = Extract<RadixEvent, { type: 'partial' }>;
+
+// 从根到当前节点的完整字符串
+function pathWord(ctx: RadixContext): string {
+  return ctx.path.map(node => node.label).join('');
+}
+
+// 查询串停在了最后一条边的中途，没有与它对应的节点
+function endsMidEdge(ctx: RadixContext): boolean {
+  return pathWord(ctx).length > ctx.word.length;
+}
+
+function nodeLabel(node: RadixNode): string {
+  return node.label ? `节点 "${node.label}"` : '根节点';
+}
+
+// searchPrefix 循环体：整条边匹配，移动到子节点
+function prefixVisit(key: 'word' | 'prefix') {
+  return (event: MoveEvent, ctx: RadixContext): StepSpec => {
+    const rest = ctx.word.slice(event.index + event.node.label.length);
+    return {
+      description: `匹配边 "${event.node.label}"，移动到子节点${rest ? `，剩余 "${rest}"` : ''}`,
+      lines: radixCodeLines('prefix.compare', 'prefix.move'),
+      variables: { [key]: ctx.word, i: event.index, label: event.node.label },
+      annotation: {
+        text: `匹配 "${event.node.label}"`,
+        position: 'top',
+        type: 'action',
+      },
+      action: 'moveToChild',
+    };
+  };
+}
+
+// searchPrefix 中断：没有以当前字符开头的边，或边与剩余部分不一致；outcome 说明这对当前操作意味着什么
+function prefixFail(key: 'word' | 'prefix', outcome: string, ...extra: RadixCodeAnchor[]) {
+  return (event: FailEvent, ctx: RadixContext): StepSpec => {
+    const rest = ctx.word.slice(event.index);
+    return {
+      description: event.edge
+        ? `边 "${event.edge.label}" 与剩余 "${rest}" 不一致，${outcome}`
+        : `没有以 '${rest[0]}' 开头的边，${outcome}`,
+      lines: event.edge
+        ? radixCodeLines('prefix.compare', 'prefix.mismatch', ...extra)
+        : radixCodeLines('prefix.fail', ...extra),
+      variables: { [key]: ctx.word, i: event.index, found: false },
+      annotation: {
+        text: event.edge ? `与 "${event.edge.label}" 不匹配 ✗` : `'${rest[0]}' 不存在 ✗`,
+        position: 'right',
+        type: 'result',
+      },
+      action: 'returnResult',
+    };
+  };
+}
+
+// 查询串在边中途结束：前缀类查询落在这条边的子节点上继续
+function prefixPartial(key: 'word' | 'prefix') {
+  return (event: PartialEvent, ctx: RadixContext): StepSpec => ({
+    description: `剩余 "${ctx.word.slice(event.index)}" 是边 "${event.node.label}" 的前缀，在这条边的中途结束，落在它的子节点上`,
+    lines: radixCodeLines('prefix.compare', 'prefix.partial'),
+    variables: { [key]: ctx.word, i: event.index, label: event.node.label },
+    annotation: {
+      text: `停在 "${event.node.label}" 中途`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'moveToChild',
+  });
+}
+
+// 查询串在边中途结束：精确查询找不到对应的节点
+function partialMiss(key: 'word' | 'prefix', outcome: string, ...extra: RadixCodeAnchor[]) {
+  return (event: PartialEvent, ctx: RadixContext): StepSpec => ({
+    description: `查询串在边 "${event.node.label}" 的中途结束，没有对应的节点，${outcome}`,
+    lines: radixCodeLines('prefix.compare', 'prefix.partial', ...extra),
+    variables: { [key]: ctx.word, i: event.index, label: event.node.label, found: false },
+    annotation: {
+      text: `停在边中途 ✗`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'returnResult',
+  });
+}
+
+export const radixInsertTemplate: RadixTemplate = {
+  run: (trie, op) => {
+    trie.insert(op.word);
+    return undefined;
+  },
+  start: (_event, ctx) => ({
+    description: `开始插入单词 "${ctx.word}"`,
+    lines: radixCodeLines('insert.begin'),
+    variables: { word: ctx.word, rest: ctx.word },
+    annotation: {
+      text: `插入 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  create: (event, ctx) => ({
+    description: `没有以 '${ctx.word[event.index]}' 开头的边，整段剩余 "${event.node.label}" 作为一条新边创建叶子节点`,
+    lines: radixCodeLines('insert.create', 'insert.move'),
+    variables: { word: ctx.word, i: event.index, label: event.node.label, passCount: event.node.passCount, action: 'create' },
+    annotation: {
+      text: `新建边 "${event.node.label}"`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'createNode',
+  }),
+  split: (event, ctx) => ({
+    description: `边 "${event.label}" 与剩余 "${ctx.word.slice(event.index)}" 只有公共前缀 "${event.node.label}"，在此处拆分出中间节点`,
+    lines: radixCodeLines('insert.split', 'split'),
+    variables: { word: ctx.word, i: event.index, label: event.label, common: event.node.label },
+    annotation: {
+      text: `拆分 "${event.node.label}" | "${event.label.slice(event.node.label.length)}"`,
+      position: 'right',
+      type: 'action',
+    },
+    action: 'splitNode',
+  }),
+  visit: (event, ctx) => {
+    const rest = ctx.word.slice(event.index + event.node.label.length);
+    return {
+      description: `匹配边 "${event.node.label}"，移动到子节点，passCount 增加到 ${event.node.passCount}${rest ? `，剩余 "${rest}"` : ''}`,
+      lines: radixCodeLines('insert.move'),
+      variables: { word: ctx.word, i: event.index, label: event.node.label, passCount: event.node.passCount, action: 'move' },
+      annotation: {
+        text: `匹配 "${event.node.label}"，pass=${event.node.passCount}`,
+        position: 'top',
+        type: 'action',
+      },
+      action: 'moveToChild',
+    };
+  },
+  markEnd: (event, ctx) => {
+    const isDuplicate = event.node.endCount > 1;
+    return {
+      description: isDuplicate
+        ? `"${ctx.word}" 已存在，重复插入，endCount 增加到 ${event.node.endCount}`
+        : `标记节点为单词结尾，endCount 记为 1，"${ctx.word}" 插入完成`,
+      lines: radixCodeLines('insert.markEnd'),
+      variables: { word: ctx.word, isEnd: true, endCount: event.node.endCount },
+      annotation: {
+        text: isDuplicate ? `重复插入，end=${event.node.endCount}` : `标记为结尾 ✓`,
+        position: 'top',
+        type: 'result',
+      },
+      action: 'markEnd',
+    };
+  },
+};
+
+export const radixSearchTemplate: RadixTemplate = {
+  run: (trie, op) => trie.search(op.word),
+  start: (_event, ctx) => ({
+    description: `开始搜索单词 "${ctx.word}"，沿边逐段匹配`,
+    lines: radixCodeLines('search.begin'),
+    variables: { word: ctx.word, rest: ctx.word },
+    annotation: {
+      text: `搜索 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  visit: prefixVisit('word'),
+  fail: prefixFail('word', '搜索失败'),
+  partial: partialMiss('word', '搜索失败'),
+  return: (event, ctx): StepSpec => {
+    if (ctx.failed || endsMidEdge(ctx)) {
+      return {
+        description: `返回 false，单词 "${ctx.word}" 不在压缩前缀树中`,
+        lines: radixCodeLines('search.return'),
+        variables: { word: ctx.word, result: false },
+        action: 'returnResult',
+      };
+    }
+    const isEnd = event.value === true;
+    return {
+      description: isEnd
+        ? `节点标记为单词结尾，搜索成功！返回 true`
+        : `节点未标记为单词结尾，搜索失败。返回 false`,
+      lines: radixCodeLines('prefix.return', 'search.return'),
+      variables: { word: ctx.word, isEnd, result: isEnd },
+      annotation: {
+        text: isEnd ? `是单词结尾 ✓` : `非单词结尾 ✗`,
+        position: 'top',
+        type: 'result',
+      },
+      action: 'checkEnd',
+    };
+  },
+};
+
+export const radixStartsWithTemplate: RadixTemplate = {
+  run: (trie, op) => trie.startsWith(op.word),
+  start: (_event, ctx) => ({
+    description: `开始搜索前缀 "${ctx.word}"，沿边逐段匹配`,
+    lines: radixCodeLines('startsWith.begin', 'startsWith.return'),
+    variables: { prefix: ctx.word, rest: ctx.word },
+    annotation: {
+      text: `搜索前缀 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  visit: prefixVisit('prefix'),
+  fail: prefixFail('prefix', '前缀不存在'),
+  partial: prefixPartial('prefix'),
+  return: (_event, ctx) => ctx.failed
+    ? {
+        description: `返回 false，前缀 "${ctx.word}" 不存在`,
+        lines: radixCodeLines('startsWith.return'),
+        variables: { prefix: ctx.word, result: false },
+        action: 'returnResult',
+      }
+    : {
+        description: `前缀 "${ctx.word}" 存在，返回 true`,
+        lines: radixCodeLines(endsMidEdge(ctx) ? 'prefix.partial' : 'prefix.return', 'startsWith.return'),
+        variables: { prefix: ctx.word, result: true },
+        annotation: {
+          text: `前缀存在 ✓`,
+          position: 'top',
+          type: 'result',
+        },
+        action: 'returnResult',
+      },
+};
+
+// countWordsEqualTo 与 countWordsStartingWith 共用 searchPrefix，只是最后读取的计数不同；
+// 停在边中途时前者没有对应的节点，后者读取那条边子节点的 passCount
+function radixCountTemplate(mode: 'equal' | 'prefix'): RadixTemplate {
+  const isEqual = mode === 'equal';
+  const counterName = isEqual ? 'endCount' : 'passCount';
+  const anchors = isEqual
+    ? { start: 'countEqual.begin', notFound: 'countEqual.notFound', found: 'countEqual.return' } as const
+    : { start: 'countPrefix.begin', notFound: 'countPrefix.notFound', found: 'countPrefix.return' } as const;
+
+  return {
+    run: (trie, op) => (isEqual ? trie.countWordsEqualTo(op.word) : trie.countWordsStartingWith(op.word)),
+    start: (_event, ctx) => ({
+      description: isEqual
+        ? `开始统计等于 "${ctx.word}" 的单词个数`
+        : `开始统计以 "${ctx.word}" 为前缀的单词个数`,
+      lines: radixCodeLines(anchors.start),
+      variables: { word: ctx.word, rest: ctx.word },
+      annotation: {
+        text: isEqual ? `统计 "${ctx.word}"` : `统计前缀 "${ctx.word}"`,
+        position: 'top',
+        type: 'action',
+      },
+    }),
+    visit: prefixVisit('word'),
+    // 路径中断，计数为 0，不再单独生成返回步骤
+    fail: prefixFail('word', '返回 0', anchors.notFound),
+    partial: isEqual ? partialMiss('word', '返回 0', anchors.notFound) : prefixPartial('word'),
+    return: (event, ctx) => {
+      if (ctx.failed || (isEqual && endsMidEdge(ctx))) return null;
+      return {
+        description: `读取${endsMidEdge(ctx) ? '这条边子节点' : '末尾节点'}的 ${counterName}，返回 ${event.value}`,
+        lines: radixCodeLines(endsMidEdge(ctx) ? 'prefix.partial' : 'prefix.return', anchors.found),
+        variables: { word: ctx.word, [counterName]: event.value as number, result: event.value as number },
+        annotation: {
+          text: `${counterName} = ${event.value}`,
+          position: 'top',
+          type: 'value',
+        },
+        action: 'returnResult',
+      };
+    },
+  };
+}
+
+export const radixDeleteTemplate: RadixTemplate = {
+  run: (trie, op) => {
+    trie.delete(op.word);
+    return undefined;
+  },
+  start: (_event, ctx) => ({
+    description: `开始删除单词 "${ctx.word}"，记录沿途经过的节点`,
+    lines: radixCodeLines('delete.begin'),
+    variables: { word: ctx.word, rest: ctx.word },
+    annotation: {
+      text: `删除 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  visit: (event, ctx) => ({
+    description: `匹配边 "${event.node.label}"，移动到子节点并记入路径`,
+    lines: radixCodeLines('delete.loop', 'delete.move'),
+    variables: { word: ctx.word, i: event.index, label: event.node.label },
+    annotation: {
+      text: `匹配 "${event.node.label}"`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'moveToChild',
+  }),
+  fail: (event, ctx) => ({
+    ...prefixFail('word', `单词 "${ctx.word}" 不在压缩前缀树中，无需删除`)(event, ctx),
+    lines: radixCodeLines('delete.loop', 'delete.fail'),
+  }),
+  partial: (event, ctx) => ({
+    ...partialMiss('word', '无需删除')(event, ctx),
+    lines: radixCodeLines('delete.loop', 'delete.fail'),
+  }),
+  // 是单词结尾时直接进入下一步取消标记，不单独生成步骤
+  checkEnd: (event, ctx) => event.node.isEnd ? null : {
+    description: `节点未标记为单词结尾，"${ctx.word}" 只是前缀，无需删除`,
+    lines: radixCodeLines('delete.notEnd'),
+    variables: { word: ctx.word, isEnd: false },
+    annotation: {
+      text: `非单词结尾 ✗`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'checkEnd',
+  },
+  unmarkEnd: (event, ctx) => ({
+    description: event.node.isEnd
+      ? `endCount 减为 ${event.node.endCount}，"${ctx.word}" 仍有重复插入，保留结尾标记`
+      : `endCount 减为 0，取消节点的单词结尾标记，"${ctx.word}" 不再是树中的单词`,
+    lines: radixCodeLines('delete.unmark'),
+    variables: { word: ctx.word, endCount: event.node.endCount, isEnd: event.node.isEnd },
+    annotation: {
+      text: event.node.isEnd ? `end=${event.node.endCount}，仍是结尾` : `取消结尾标记`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'unmarkEnd',
+  }),
+  backtrack: (event, ctx) => ({
+    description: `边 "${event.node.label}" 的 passCount 减为 ${event.node.passCount}，仍有其他单词经过，保留`,
+    lines: radixCodeLines('delete.backtrack', 'delete.decPass', 'delete.checkPrune'),
+    variables: { word: ctx.word, i: event.index, label: event.node.label, passCount: event.node.passCount },
+    annotation: {
+      text: `pass=${event.node.passCount}，保留`,
+      position: 'top',
+      type: 'value',
+    },
+    action: 'checkEnd',
+  }),
+  prune: (event, ctx) => ({
+    description: `边 "${event.label}" 的 passCount 减为 0，没有单词再经过，从父节点中删除`,
+    lines: radixCodeLines('delete.decPass', 'delete.checkPrune', 'delete.prune'),
+    variables: { word: ctx.word, i: event.index, label: event.label, passCount: 0, action: 'prune' },
+    annotation: {
+      text: `剪掉 "${event.label}"`,
+      position: 'right',
+      type: 'action',
+    },
+    action: 'pruneNode',
+  }),
+  merge: (event, ctx) => ({
+    description: `节点 "${event.label}" 不是结尾且只剩一个子节点 "${event.node.label.slice(event.label.length)}"，合并为一条边 "${event.node.label}"`,
+    lines: radixCodeLines('delete.merge', 'merge'),
+    variables: { word: ctx.word, label: event.node.label, action: 'merge' },
+    annotation: {
+      text: `合并为 "${event.node.label}"`,
+      position: 'right',
+      type: 'action',
+    },
+    action: 'mergeNode',
+  }),
+  // 未找到或不是结尾时，失败原因已在前一步说明
+  return: (event, ctx) => event.value === true ? {
+    description: `回溯到根节点，"${ctx.word}" 删除完成`,
+    lines: radixCodeLines('delete.end'),
+    variables: { word: ctx.word },
+    annotation: {
+      text: `删除完成 ✓`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'returnResult',
+  } : null,
+};
+
+export const radixAutocompleteTemplate: RadixTemplate = {
+  run: (trie, op) => trie.autocomplete(op.word, op.k),
+  start: (_event, ctx) => ({
+    description: ctx.k > 0
+      ? `开始自动补全前缀 "${ctx.word}"，返回出现次数最多的前 ${ctx.k} 个单词`
+      : `开始自动补全前缀 "${ctx.word}"，返回所有以它开头的单词`,
+    lines: radixCodeLines('autocomplete.begin'),
+    variables: { prefix: ctx.word, k: ctx.k, rest: ctx.word },
+    annotation: {
+      text: `补全 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+    collectedWords: [],
+  }),
+  visit: (event, ctx) => ({ ...prefixVisit('prefix')(event, ctx), collectedWords: [] }),
+  partial: (event, ctx) => ({ ...prefixPartial('prefix')(event, ctx), collectedWords: [] }),
+  fail: (event, ctx) => ({
+    ...prefixFail('prefix', `没有以 "${ctx.word}" 开头的单词，返回空列表`, 'autocomplete.notFound')(event, ctx),
+    collectedWords: [],
+  }),
+  // 在前缀所在子树上做深度优先遍历，按字典序访问子节点，经过单词结尾时收集；
+  // 子树根是父节点路径还没覆盖整个前缀的那个节点
+  collect: (event, ctx): StepSpec => {
+    const isSubtreeRoot = event.node.parent === null
+      || event.word.length - event.node.label.length < ctx.word.length;
+    const visited = isSubtreeRoot
+      ? `前缀 "${ctx.word}" 落在${nodeLabel(event.node)}，从这里开始深度优先遍历子树`
+      : `深度优先访问边 "${event.node.label}"，当前路径 "${event.word}"`;
+    const anchors: RadixCodeAnchor[] = isSubtreeRoot
+      ? ['autocomplete.collect', 'collect.begin']
+      : ['collect.child'];
+    if (!event.node.isEnd) {
+      return {
+        description: visited,
+        lines: radixCodeLines(...anchors),
+        variables: { prefix: ctx.word, path: event.word, found: ctx.collected.length },
+        annotation: {
+          text: `访问 "${event.word}"`,
+          position: 'top',
+          type: 'action',
+        },
+        collectedWords: [...ctx.collected],
+        action: 'visitNode',
+      };
+    }
+    return {
+      description: `${visited}，节点是单词结尾，收集单词 "${event.word}"（出现 ${event.node.endCount} 次）`,
+      lines: radixCodeLines(...anchors, 'collect.word'),
+      variables: { prefix: ctx.word, path: event.word, endCount: event.node.endCount, found: ctx.collected.length },
+      annotation: {
+        text: `收集 "${event.word}" ×${event.node.endCount}`,
+        position: 'right',
+        type: 'result',
+      },
+      collectedWords: [...ctx.collected],
+      action: 'collectWord',
+    };
+  },
+  return: (event, ctx) => {
+    if (ctx.failed) return null;
+    const results = event.value as string[];
+    return {
+      description: ctx.k > 0
+        ? `共找到 ${ctx.collected.length} 个单词，按出现次数降序排序后返回前 ${ctx.k} 个`
+        : results.length > 0
+          ? `自动补全完成，返回 ${results.length} 个单词`
+          : `前缀 "${ctx.word}" 下没有完整单词，返回空列表`,
+      lines: ctx.k > 0
+        ? radixCodeLines('autocomplete.topK', 'autocomplete.returnTopK')
+        : radixCodeLines('autocomplete.return'),
+      variables: { prefix: ctx.word, k: ctx.k, found: ctx.collected.length, result: results.length },
+      annotation: {
+        text: ctx.k > 0 && results.length > 0 ? `Top ${ctx.k}: ${results.join(', ')}` : `返回 ${results.length} 个单词 ✓`,
+        position: 'top',
+        type: 'result',
+      },
+      collectedWords: results,
+      action: 'returnResult',
+    };
+  },
+};
+
+// 模式中与边 node 对齐的那一段
+function segmentOf(ctx: RadixContext, index: number, node: RadixNode): string {
+  return ctx.word.slice(index, index + node.label.length);
+}
+
+export const radixWildcardTemplate: RadixTemplate = {
+  run: (trie, op) => trie.searchWildcard(op.word),
+  start: (_event, ctx) => ({
+    description: `开始通配符搜索 "${ctx.word}"，'.' 可以匹配边标签中的任意一个字符`,
+    lines: radixCodeLines('wildcard.begin', 'wildcard.call'),
+    variables: { word: ctx.word, i: 0 },
+    annotation: {
+      text: `搜索 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  branch: (event, ctx) => ({
+    description: event.options.length > 0
+      ? `第 ${event.index + 1} 位是通配符 '.'，依次尝试 ${event.options.length} 条边: ${event.options.join(', ')}`
+      : `第 ${event.index + 1} 位是通配符 '.'，但${nodeLabel(event.node)}没有子节点`,
+    lines: radixCodeLines('match.isDot', 'match.loop'),
+    variables: { word: ctx.word, i: event.index, branches: event.options.length },
+    annotation: {
+      text: `'.' → ${event.options.length} 个分支`,
+      position: 'right',
+      type: 'info',
+    },
+    action: 'branch',
+  }),
+  mismatch: (event, ctx) => ({
+    description: `边 "${event.node.label}" 与模式片段 "${segmentOf(ctx, event.index, event.node)}" 不匹配，剪枝`,
+    lines: radixCodeLines('match.child', 'match.mismatch'),
+    variables: { word: ctx.word, i: event.index, label: event.node.label },
+    annotation: {
+      text: `不匹配 ✗`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'backtrack',
+  }),
+  visit: (event, ctx): StepSpec => {
+    const segment = segmentOf(ctx, event.index, event.node);
+    return ctx.word[event.index] === '.'
+      ? {
+          description: `尝试边 "${event.node.label}"，与模式片段 "${segment}" 匹配，进入子节点`,
+          lines: radixCodeLines('match.child', 'match.try'),
+          variables: { word: ctx.word, i: event.index, label: event.node.label },
+          annotation: {
+            text: `探索 "${event.node.label}"`,
+            position: 'top',
+            type: 'action',
+          },
+          action: 'moveToChild',
+        }
+      : {
+          description: `边 "${event.node.label}" 与模式片段 "${segment}" 匹配，进入子节点`,
+          lines: radixCodeLines('match.readChar', 'match.child', 'match.try'),
+          variables: { word: ctx.word, i: event.index, label: event.node.label },
+          annotation: {
+            text: `匹配 "${segment}"`,
+            position: 'top',
+            type: 'action',
+          },
+          action: 'moveToChild',
+        };
+  },
+  checkEnd: (event, ctx) => ({
+    description: event.node.isEnd
+      ? `模式已匹配完，节点是单词结尾，返回 true`
+      : `模式已匹配完，但节点不是单词结尾，返回 false`,
+    lines: radixCodeLines('match.end'),
+    variables: { word: ctx.word, i: ctx.word.length, isEnd: event.node.isEnd },
+    annotation: {
+      text: event.node.isEnd ? `是单词结尾 ✓` : `非单词结尾 ✗`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'checkEnd',
+  }),
+  // 普通字符开头的边匹配失败时直接向上返回，不单独生成步骤
+  backtrack: (event, ctx): StepSpec | null => {
+    if (ctx.word[event.index] !== '.') return null;
+    return event.matched
+      ? {
+          description: `边 "${event.node.label}" 之后匹配成功，向上返回 true`,
+          lines: radixCodeLines('match.found'),
+          variables: { word: ctx.word, i: event.index, label: event.node.label, result: true },
+          annotation: {
+            text: `返回 true ✓`,
+            position: 'right',
+            type: 'result',
+          },
+          action: 'returnResult',
+        }
+      : {
+          description: `边 "${event.node.label}" 之后无法完成匹配，回溯到${nodeLabel(event.node.parent!)}`,
+          lines: radixCodeLines('match.loop', 'match.try'),
+          variables: { word: ctx.word, i: event.index, label: event.node.label, result: false },
+          annotation: {
+            text: `回溯 ✗`,
+            position: 'top',
+            type: 'result',
+          },
+          action: 'backtrack',
+        };
+  },
+  fail: (event, ctx): StepSpec => ctx.word[event.index] === '.'
+    ? {
+        description: `${nodeLabel(event.node)}的所有边都无法匹配，返回 false`,
+        lines: radixCodeLines('match.exhausted'),
+        variables: { word: ctx.word, i: event.index, result: false },
+        annotation: {
+          text: `返回 false`,
+          position: 'right',
+          type: 'result',
+        },
+        action: 'returnResult',
+      }
+    : {
+        // 没有可走的边，这条路径被剪枝
+        description: `没有以 '${ctx.word[event.index]}' 开头的边，剪枝，返回 false`,
+        lines: radixCodeLines('match.child', 'match.mismatch', 'match.exhausted'),
+        variables: { word: ctx.word, i: event.index, found: false },
+        annotation: {
+          text: `'${ctx.word[event.index]}' 不存在 ✗`,
+          position: 'right',
+          type: 'result',
+        },
+        action: 'returnResult',
+      },
+  return: (event, ctx) => ({
+    description: event.value
+      ? `通配符搜索 "${ctx.word}" 成功，返回 true`
+      : `通配符搜索 "${ctx.word}" 失败，返回 false`,
+    lines: radixCodeLines('wildcard.call'),
+    variables: { word: ctx.word, result: event.value === true },
+    annotation: {
+      text: event.value ? `返回 true ✓` : `返回 false ✗`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'returnResult',
+  }),
+};
+
+export const RADIX_STEP_TEMPLATES: Partial<Record<OperationType, RadixTemplate>> = {
+  insert: radixInsertTemplate,
+  search: radixSearchTemplate,
+  startsWith: radixStartsWithTemplate,
+  countWordsEqualTo: radixCountTemplate('equal'),
+  countWordsStartingWith: radixCountTemplate('prefix'),
+  delete: radixDeleteTemplate,
+  autocomplete: radixAutocompleteTemplate,
+  searchWildcard: radixWildcardTemplate,
+};
@@ -0,0 +1,388 @@
+import type { RadixNode, AlgorithmStep, Operation, StepProgressHandler } from '../types';
+import { DeltaJournal } from './snapshot';
+import { StepRecorder } from './stepRecorder';
+import { traceOperation, type RadixTracer } from './tracer';
+import { RADIX_STEP_TEMPLATES } from './radixStepTemplates';
+import { radixCodeLines } from './radixCodeSnippets';
+
+// 压缩前缀树（Radix / Patricia Trie）：每条边保存一个子串，只有一个子节点且不是单词结尾的节点会被合并
+
+// 节点ID由从根到该节点的完整路径决定（根为 "radix:"），拆分与合并后仍保持这一约定
+const ROOT_ID = 'radix:';
+
+export function createRadixNode(label: string, depth: number, parent: RadixNode | null): RadixNode {
+  return {
+    id: parent ? parent.id + label : ROOT_ID,
+    label,
+    children: new Map(),
+    isEnd: false,
+    passCount: 0,
+    endCount: 0,
+    depth,
+    parent,
+  };
+}
+
+// 边标签 label 与 word 从 start 开始的部分的最长公共前缀长度
+function commonPrefixLength(label: string, word: string, start: number): number {
+  let n = 0;
+  while (n < label.length && start + n < word.length && label[n] === word[start + n]) {
+    n++;
+  }
+  return n;
+}
+
+// 沿边查找 prefix 的结果：node 为匹配结束时所在的节点，path 为从根到它的路径；
+// prefix 在边中途结束时 node 是那条边的子节点，partial 为 true
+interface PrefixLocation {
+  node: RadixNode;
+  path: RadixNode[];
+  partial: boolean;
+}
+
+export class RadixTrie {
+  root: RadixNode;
+  readonly journal = new DeltaJournal(); // 记录结构修改，生成步骤时逐步取走
+  tracer: RadixTracer | null = null; // 生成步骤时挂上，接收算法执行过程中的事件
+  
+  constructor() {
+    this.root = createRadixNode('', 0, null);
+    this.journal.create(this.root.id, null, nodeFields(this.root));
+  }
+  
+  // 逐条边插入单词：没有可走的边就整段建边，边只匹配了前一段就先拆分
+  insert(word: string): void {
+    let node = this.root;
+    const path = [node];
+    this.tracer?.({ type: 'start', operation: 'insert', word });
+    let i = 0;
+    while (i < word.length) {
+      let child = node.children.get(word[i]);
+      const created = !child;
+      if (!child) {
+        child = this.addChild(node, word.slice(i));
+      } else {
+        const common = commonPrefixLength(child.label, word, i);
+        if (common < child.label.length) {
+          const label = child.label;
+          child = this.split(child, common);
+          this.tracer?.({ type: 'split', node: child, label, index: i, path: [...path, child] });
+        }
+      }
+      child.passCount++;
+      this.journal.update(child.id, { passCount: child.passCount });
+      node = child;
+      path.push(node);
+      this.tracer?.({ type: created ? 'create' : 'visit', node, index: i, path: [...path] });
+      i += node.label.length;
+    }
+    node.isEnd = true;
+    node.endCount++;
+    this.journal.update(node.id, { isEnd: true, endCount: node.endCount });
+    this.tracer?.({ type: 'markEnd', node, path });
+  }
+  
+  // 以 label 为边新建子节点并记录增量
+  addChild(node: RadixNode, label: string): RadixNode {
+    const child = createRadixNode(label, node.depth + 1, node);
+    node.children.set(label[0], child);
+    this.journal.create(child.id, node.id, nodeFields(child));
+    return child;
+  }
+  
+  // 从父节点中删除子节点（连同子树）并记录增量
+  removeChild(node: RadixNode, child: RadixNode): void {
+    node.children.delete(child.label[0]);
+    this.journal.remove(child.id);
+  }
+  
+  // 删除所有节点，回到只有根节点的初始状态
+  clear(): void {
+    for (const child of [...this.root.children.values()]) {
+      this.removeChild(this.root, child);
+    }
+  }
+  
+  // 在边标签第 at 个字符处拆分 child，返回新建的中间节点
+  split(child: RadixNode, at: number): RadixNode {
+    const parent = child.parent!;
+    const position = [...parent.children.values()].indexOf(child);
+    const middle = createRadixNode(child.label.slice(0, at), parent.depth + 1, parent);
+    middle.passCount = child.passCount;
+    parent.children.set(middle.label[0], middle);
+    child.label = child.label.slice(at);
+    child.parent = middle;
+    middle.children.set(child.label[0], child);
+    shiftDepth(child, 1);
+    // 中间节点占据 child 原来的位置，child 挂到中间节点下
+    this.journal.create(middle.id, parent.id, nodeFields(middle), position);
+    this.journal.move(child.id, middle.id);
+    this.journal.update(child.id, { char: child.label });
+    return middle;
+  }
+  
+  // 把只有一个子节点的非结尾节点与其子节点合并：由子节点接管它的位置，
+  // 子节点的完整路径不变，因此ID也不变；返回合并后的节点
+  merge(node: RadixNode): RadixNode {
+    const parent = node.parent!;
+    const [child] = node.children.values();
+    const position = [...parent.children.values()].indexOf(node);
+    child.label = node.label + child.label;
+    child.parent = parent;
+    parent.children.set(child.label[0], child);
+    shiftDepth(child, -1);
+    this.journal.move(child.id, parent.id, position);
+    this.journal.update(child.id, { char: child.label });
+    this.journal.remove(node.id);
+    return child;
+  }
+  
+  search(word: string): boolean {
+    this.tracer?.({ type: 'start', operation: 'search', word });
+    const found = this.searchPrefix(word);
+    const result = found !== null && !found.partial && found.node.isEnd;
+    this.tracer?.({ type: 'return', value: result });
+    return result;
+  }
+  
+  // 前缀可以停在边的中途
+  startsWith(prefix: string): boolean {
+    this.tracer?.({ type: 'start', operation: 'startsWith', word: prefix });
+    const result = this.searchPrefix(prefix) !== null;
+    this.tracer?.({ type: 'return', value: result });
+    return result;
+  }
+  
+  countWordsEqualTo(word: string): number {
+    this.tracer?.({ type: 'start', operation: 'countWordsEqualTo', word });
+    const found = this.searchPrefix(word);
+    const result = found !== null && !found.partial ? found.node.endCount : 0;
+    this.tracer?.({ type: 'return', value: result });
+    return result;
+  }
+  
+  // 前缀停在边中途时，经过这条边的单词都以它开头，读子节点的 passCount
+  countWordsStartingWith(prefix: string): number {
+    this.tracer?.({ type: 'start', operation: 'countWordsStartingWith', word: prefix });
+    const result = this.searchPrefix(prefix)?.node.passCount ?? 0;
+    this.tracer?.({ type: 'return', value: result });
+    return result;
+  }
+  
+  // 删除一次单词，沿途计数减一并剪掉计数归零的边；之后只剩一个子节点的非结尾节点与子节点合并，保持压缩
+  delete(word: string): boolean {
+    this.tracer?.({ type: 'start', operation: 'delete', word });
+    const found = this.searchPrefix(word);
+    if (found === null || found.partial) {
+      this.tracer?.({ type: 'return', value: false });
+      return false;
+    }
+    const { node, path } = found;
+    this.tracer?.({ type: 'checkEnd', node, path });
+    if (!node.isEnd) {
+      this.tracer?.({ type: 'return', value: false });
+      return false;
+    }
+    node.endCount--;
+    node.isEnd = node.endCount > 0;
+    this.journal.update(node.id, { isEnd: node.isEnd, endCount: node.endCount });
+    this.tracer?.({ type: 'unmarkEnd', node, path });
+    let end = word.length;
+    for (let j = path.length - 1; j > 0; j--) {
+      const current = path[j];
+      const index = end - current.label.length;
+      current.passCount--;
+      this.journal.update(current.id, { passCount: current.passCount });
+      if (current.passCount === 0) {
+        this.removeChild(path[j - 1], current);
+        this.tracer?.({ type: 'prune', node: path[j - 1], label: current.label, index, path: path.slice(0, j) });
+      } else {
+        this.tracer?.({ type: 'backtrack', node: current, index, path: path.slice(0, j + 1) });
+      }
+      end = index;
+    }
+    // 剪枝停在的节点少了一个子节点，可能需要与剩下的子节点合并
+    let last = path.length - 1;
+    while (last > 0 && path[last].passCount === 0) {
+      last--;
+    }
+    const survivor = path[last];
+    if (last > 0 && !survivor.isEnd && survivor.children.size === 1) {
+      const label = survivor.label;
+      const merged = this.merge(survivor);
+      this.tracer?.({ type: 'merge', node: merged, label, path: [...path.slice(0, last), merged] });
+    }
+    this.tracer?.({ type: 'return', value: true, path: [this.root] });
+    return true;
+  }
+  
+  // 收集以 prefix 开头的所有单词（字典序），k > 0 时按出现次数取前 k 个；前缀停在边中途时从那条边的子节点开始
+  autocomplete(prefix: string, k: number = 0): string[] {
+    this.tracer?.({ type: 'start', operation: 'autocomplete', word: prefix });
+    const found = this.searchPrefix(prefix);
+    if (found === null) {
+      this.tracer?.({ type: 'return', value: [] });
+      return [];
+    }
+    const words: { word: string; count: number }[] = [];
+    const collect = (current: RadixNode, word: string, path: RadixNode[]) => {
+      if (current.isEnd) {
+        words.push({ word, count: current.endCount });
+      }
+      this.tracer?.({ type: 'collect', node: current, word, path });
+      for (const key of [...current.children.keys()].sort()) {
+        const child = current.children.get(key)!;
+        collect(child, word + child.label, [...path, child]);
+      }
+    };
+    collect(found.node, pathString(found.node), found.path);
+    // 按出现次数稳定排序，次数相同时保持字典序
+    const result = k > 0
+      ? [...words].sort((a, b) => b.count - a.count).slice(0, k).map(item => item.word)
+      : words.map(item => item.word);
+    this.tracer?.({ type: 'return', value: result, path: found.path });
+    return result;
+  }
+  
+  // 支持 '.' 通配符的搜索：边标签逐字符与模式片段比较，'.' 匹配任意一个字符
+  searchWildcard(pattern: string): boolean {
+    this.tracer?.({ type: 'start', operation: 'searchWildcard', word: pattern });
+    const matchFrom = (node: RadixNode, i: number, path: RadixNode[]): boolean => {
+      if (i === pattern.length) {
+        this.tracer?.({ type: 'checkEnd', node, path });
+        return node.isEnd;
+      }
+      const isDot = pattern[i] === '.';
+      const keys = isDot ? [...node.children.keys()].sort() : [pattern[i]];
+      if (isDot) {
+        const options = keys.map(key => node.children.get(key)!.label);
+        this.tracer?.({ type: 'branch', node, index: i, path, options });
+      }
+      for (const key of keys) {
+        const child = node.children.get(key);
+        if (!child) continue;
+        const childPath = [...path, child];
+        if (!labelMatches(child.label, pattern, i)) {
+          this.tracer?.({ type: 'mismatch', node: child, index: i, path: childPath });
+          continue;
+        }
+        this.tracer?.({ type: 'visit', node: child, index: i, path: childPath });
+        const matched = matchFrom(child, i + child.label.length, childPath);
+        this.tracer?.({ type: 'backtrack', node: child, index: i, path: childPath, matched });
+        if (matched) return true;
+      }
+      if (isDot || !node.children.has(pattern[i])) {
+        this.tracer?.({ type: 'fail', node, index: i, path });
+      }
+      return false;
+    };
+    const result = matchFrom(this.root, 0, [this.root]);
+    this.tracer?.({ type: 'return', value: result, path: [this.root] });
+    return result;
+  }
+  
+  private searchPrefix(prefix: string): PrefixLocation | null {
+    let node = this.root;
+    const path = [node];
+    let i = 0;
+    while (i < prefix.length) {
+      const child = node.children.get(prefix[i]);
+      if (!child) {
+        this.tracer?.({ type: 'fail', node, index: i, path });
+        return null;
+      }
+      const common = commonPrefixLength(child.label, prefix, i);
+      if (common < child.label.length) {
+        if (i + common < prefix.length) {
+          this.tracer?.({ type: 'fail', node, index: i, path, edge: child });
+          return null;
+        }
+        path.push(child);
+        this.tracer?.({ type: 'partial', node: child, index: i, path: [...path] });
+        return { node: child, path, partial: true };
+      }
+      node = child;
+      path.push(node);
+      this.tracer?.({ type: 'visit', node, index: i, path: [...path] });
+      i += common;
+    }
+    return { node, path, partial: false };
+  }
+}
+
+function nodeFields(node: RadixNode) {
+  return { char: node.label, isEnd: node.isEnd, passCount: node.passCount, endCount: node.endCount };
+}
+
+function shiftDepth(node: RadixNode, delta: number): void {
+  node.depth += delta;
+  node.children.forEach(child => shiftDepth(child, delta));
+}
+
+// 从根到 node 的完整字符串
+function pathString(node: RadixNode): string {
+  let result = '';
+  for (let current: RadixNode | null = node; current; current = current.parent) {
+    result = current.label + result;
+  }
+  return result;
+}
+
+// 边标签能否与 pattern 从 start 开始的部分逐字符匹配（'.' 匹配任意字符）
+function labelMatches(label: string, pattern: string, start: number): boolean {
+  if (start + label.length > pattern.length) return false;
+  for (let j = 0; j < label.length; j++) {
+    const p = pattern[start + j];
+    if (p !== '.' && p !== label[j]) return false;
+  }
+  return true;
+}
+
+// 在压缩前缀树上重放操作序列，生成算法步骤
+export function generateRadixSteps(operations: Operation[], onProgress?: StepProgressHandler): AlgorithmStep[] {
+  const trie = new RadixTrie();
+  const recorder = new StepRecorder(trie.journal);
+  
+  recorder.push({
+    description: '初始化压缩前缀树（Radix Trie），创建根节点',
+    codeLineMap: radixCodeLines('init'),
+    highlightedNodes: [trie.root.id],
+    variables: {},
+    annotations: [{
+      nodeId: trie.root.id,
+      text: '根节点',
+      position: 'top',
+      type: 'info',
+    }],
+  });
+  
+  operations.forEach((op, opIndex) => {
+    recorder.opIndex = opIndex;
+    if (op.disabled) {
+      op.result = undefined; // 停用的操作没有执行，不能沿用上次的结果
+      recorder.flush(opIndex + 1, onProgress);
+      return;
+    }
+    const template = RADIX_STEP_TEMPLATES[op.type];
+    if (template) {
+      op.result = traceOperation(trie, recorder, op, template);
+    } else if (op.type === 'reset') {
+      trie.clear();
+      recorder.push({
+        description: '再次调用构造函数，丢弃之前的所有节点，重新创建一棵空的压缩前缀树',
+        codeLineMap: radixCodeLines('init'),
+        highlightedNodes: [trie.root.id],
+        variables: {},
+        annotations: [{ nodeId: trie.root.id, text: '重置', position: 'top', type: 'action' }],
+      });
+    }
+    
+    recorder.flush(opIndex + 1, onProgress);
+  });
+  
+  if (operations.length === 0) {
+    recorder.flush(0, onProgress);
+  }
+  
+  return recorder.steps;
+}
@@ -0,0 +1,177 @@
+import type { AlgorithmStep, TrieDelta, VisualNode } from '../types';
+
+// 步骤只保存结构增量，每隔 CHECKPOINT_INTERVAL 步保存一次完整快照，
+// 定位到任意步骤时从最近的检查点开始重放增量即可还原当时的树
+
+export const CHECKPOINT_INTERVAL = 64;
+
+type NodeFields = Pick<VisualNode, 'char' | 'isEnd' | 'passCount' | 'endCount'>;
+
+// 生成步骤时记录对树的修改，每生成一个步骤取走一次
+export class DeltaJournal {
+  private pending: TrieDelta[] = [];
+  
+  create(id: string, parentId: string | null, fields: NodeFields, index?: number): void {
+    const { char, isEnd, passCount, endCount } = fields;
+    this.pending.push(index === undefined
+      ? { type: 'create', id, parentId, char, isEnd, passCount, endCount }
+      : { type: 'create', id, parentId, char, isEnd, passCount, endCount, index });
+  }
+  
+  update(id: string, changes: Partial<NodeFields>): void {
+    this.pending.push({ type: 'update', id, changes });
+  }
+  
+  remove(id: string): void {
+    this.pending.push({ type: 'remove', id });
+  }
+  
+  setFail(id: string, failId: string): void {
+    this.pending.push({ type: 'setFail', id, failId });
+  }
+  
+  move(id: string, parentId: string, index?: number): void {
+    this.pending.push(index === undefined
+      ? { type: 'move', id, parentId }
+      : { type: 'move', id, parentId, index });
+  }
+  
+  drain(): TrieDelta[] {
+    const deltas = this.pending;
+    this.pending = [];
+    return deltas;
+  }
+}
+
+interface SnapshotNode extends NodeFields {
+  id: string;
+  parentId: string | null;
+  children: string[];
+  failId?: string;
+}
+
+// 扁平存储的可变树，用于在检查点的基础上重放增量
+class SnapshotTree {
+  private nodes = new Map<string, SnapshotNode>();
+  private rootId: string | null = null;
+  
+  static fromVisual(root: VisualNode): SnapshotTree {
+    const tree = new SnapshotTree();
+    const load = (node: VisualNode, parentId: string | null) => {
+      tree.nodes.set(node.id, {
+        id: node.id,
+        parentId,
+        char: node.char,
+        isEnd: node.isEnd,
+        passCount: node.passCount,
+        endCount: node.endCount,
+        children: node.children.map(child => child.id),
+        failId: node.failId,
+      });
+      node.children.forEach(child => load(child, node.id));
+    };
+    load(root, null);
+    tree.rootId = root.id;
+    return tree;
+  }
+  
+  apply(delta: TrieDelta): void {
+    switch (delta.type) {
+      case 'create': {
+        const { id, parentId, char, isEnd, passCount, endCount, index } = delta;
+        this.nodes.set(id, { id, parentId, char, isEnd, passCount, endCount, children: [] });
+        if (parentId === null) {
+          this.rootId = id;
+          break;
+        }
+        const siblings = this.nodes.get(parentId)!.children;
+        siblings.splice(index ?? siblings.length, 0, id);
+        break;
+      }
+      case 'update':
+        Object.assign(this.nodes.get(delta.id)!, delta.changes);
+        break;
+      case 'remove': {
+        const node = this.nodes.get(delta.id)!;
+        this.detach(node);
+        const drop = (id: string) => {
+          this.nodes.get(id)!.children.forEach(drop);
+          this.nodes.delete(id);
+        };
+        drop(node.id);
+        break;
+      }
+      case 'move': {
+        const node = this.nodes.get(delta.id)!;
+        this.detach(node);
+        node.parentId = delta.parentId;
+        const siblings = this.nodes.get(delta.parentId)!.children;
+        siblings.splice(delta.index ?? siblings.length, 0, node.id);
+        break;
+      }
+      case 'setFail':
+        this.nodes.get(delta.id)!.failId = delta.failId;
+        break;
+    }
+  }
+  
+  toVisualNode(): VisualNode | null {
+    if (this.rootId === null) return null;
+    const build = (id: string, depth: number): VisualNode => {
+      const node = this.nodes.get(id)!;
+      return {
+        id,
+        char: node.char || 'root',
+        isEnd: node.isEnd,
+        passCount: node.passCount,
+        endCount: node.endCount,
+        x: 0,
+        y: 0,
+        depth,
+        children: node.children.map(childId => build(childId, depth + 1)),
+        highlighted: false,
+        ...(node.failId === undefined ? {} : { failId: node.failId }),
+      };
+    };
+    return build(this.rootId, 0);
+  }
+  
+  private detach(node: SnapshotNode): void {
+    if (node.parentId === null) return;
+    const siblings = this.nodes.get(node.parentId)!.children;
+    siblings.splice(siblings.indexOf(node.id), 1);
+  }
+}
+
+// 按生成顺序重放增量，按固定间隔为步骤附上完整快照；支持分批追加，便于边生成边推送
+export class CheckpointWriter {
+  private tree = new SnapshotTree();
+  private count = 0;
+  
+  append(steps: AlgorithmStep[]): void {
+    steps.forEach(step => {
+      step.deltas.forEach(delta => this.tree.apply(delta));
+      if (this.count % CHECKPOINT_INTERVAL === 0) {
+        step.checkpoint = this.tree.toVisualNode() ?? undefined;
+      }
+      this.count++;
+    });
+  }
+}
+
+// 还原第 index 步结束时的树：从不晚于它的最近检查点开始重放
+export function reconstructSnapshot(steps: AlgorithmStep[], index: number): VisualNode | null {
+  if (index < 0 || index >= steps.length) return null;
+  
+  let start = index;
+  while (start > 0 && !steps[start].checkpoint) {
+    start--;
+  }
+  
+  const checkpoint = steps[start].checkpoint;
+  const tree = checkpoint ? SnapshotTree.fromVisual(checkpoint) : new SnapshotTree();
+  for (let i = checkpoint ? start + 1 : start; i <= index; i++) {
+    steps[i].deltas.forEach(delta => tree.apply(delta));
+  }
+  return tree.toVisualNode();
+}
@@ -0,0 +1,48 @@
+import type { AlgorithmStep, StepProgressHandler } from '../types';
+import { CheckpointWriter, type DeltaJournal } from './snapshot';
+
+// codeLineMap 缺省时留空（AC 自动机构建失败指针、匹配文本等没有对应代码片段的步骤）
+export type StepFields = Omit<AlgorithmStep, 'stepIndex' | 'codeLineMap' | 'highlightedEdges' | 'deltas'>
+  & Partial<Pick<AlgorithmStep, 'codeLineMap' | 'highlightedEdges'>>;
+
+// 按顺序收集步骤：自动编号、取走结构增量，并分批附上检查点交给进度回调
+export class StepRecorder {
+  steps: AlgorithmStep[] = [];
+  opIndex: number | undefined; // 当前正在生成的操作下标，之后记录的步骤都归属于它
+  private journal: DeltaJournal;
+  private checkpoints = new CheckpointWriter();
+  private emitted = 0;
+  
+  constructor(journal: DeltaJournal) {
+    this.journal = journal;
+  }
+  
+  push(fields: StepFields): void {
+    this.steps.push({
+      stepIndex: this.steps.length,
+      codeLineMap: { java: [], python: [], golang: [], javascript: [] },
+      highlightedEdges: [],
+      deltas: this.journal.drain(),
+      ...(this.opIndex !== undefined ? { opIndex: this.opIndex } : {}),
+      ...fields,
+    });
+  }
+  
+  // 追加其他生成器产生的步骤，调用方需以 steps.length 作为它们的起始编号
+  append(steps: AlgorithmStep[]): void {
+    steps.forEach(step => {
+      if (this.opIndex !== undefined) {
+        step.opIndex = this.opIndex;
+      }
+      this.steps.push(step);
+    });
+  }
+  
+  // 为上次以来新增的步骤附上检查点并交给回调
+  flush(completedOperations: number, onProgress?: StepProgressHandler): void {
+    const batch = this.steps.slice(this.emitted);
+    this.emitted = this.steps.length;
+    this.checkpoints.append(batch);
+    onProgress?.(batch, completedOperations);
+  }
+}
@@ -0,0 +1,558 @@
+import type { OperationType, TrieNode } from '../types';
+import type { OperationTemplate, StepSpec, TrieEvent, TraceContext } from './tracer';
+import { codeLines, type CodeAnchor } from './codeSnippets';
+
+// 各操作的步骤描述模板：文字说明、对应代码行与变量面板内容
+// 新增一种操作只需在 Trie 中实现算法（发出事件），再在这里补一个模板
+
+type MoveEvent = Extract<TrieEvent, { type: 'visit' }>;
+
+// searchPrefix 循环体：找到字符，移动到子节点
+function prefixVisit(key: 'word' | 'prefix') {
+  return (event: MoveEvent, ctx: TraceContext): StepSpec => ({
+    description: `找到字符 '${event.char}'，移动到子节点`,
+    lines: codeLines('prefix.move'),
+    variables: { [key]: ctx.word, char: event.char, index: event.index },
+    annotation: {
+      text: `找到 '${event.char}'`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'moveToChild',
+  });
+}
+
+export const insertTemplate: OperationTemplate = {
+  run: (trie, op) => {
+    trie.insert(op.word);
+    return undefined;
+  },
+  start: (_event, ctx) => ({
+    description: `开始插入单词 "${ctx.word}"`,
+    lines: codeLines('insert.begin'),
+    variables: { word: ctx.word, node: 'root' },
+    annotation: {
+      text: `插入 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  create: (event, ctx) => ({
+    description: `字符 '${event.char}' 不存在，创建新节点，passCount 记为 1`,
+    lines: codeLines('insert.create', 'insert.move'),
+    variables: { word: ctx.word, char: event.char, index: event.index, passCount: event.node.passCount, action: 'create' },
+    annotation: {
+      text: `新建节点 '${event.char}'`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'createNode',
+  }),
+  visit: (event, ctx) => ({
+    description: `字符 '${event.char}' 已存在，移动到子节点，passCount 增加到 ${event.node.passCount}`,
+    lines: codeLines('insert.move'),
+    variables: { word: ctx.word, char: event.char, index: event.index, passCount: event.node.passCount, action: 'move' },
+    annotation: {
+      text: `移动到 '${event.char}'，pass=${event.node.passCount}`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'moveToChild',
+  }),
+  markEnd: (event, ctx) => {
+    const isDuplicate = event.node.endCount > 1;
+    return {
+      description: isDuplicate
+        ? `"${ctx.word}" 已存在，重复插入，endCount 增加到 ${event.node.endCount}`
+        : `标记节点为单词结尾，endCount 记为 1，"${ctx.word}" 插入完成`,
+      lines: codeLines('insert.markEnd'),
+      variables: { word: ctx.word, isEnd: true, endCount: event.node.endCount },
+      annotation: {
+        text: isDuplicate ? `重复插入，end=${event.node.endCount}` : `标记为结尾 ✓`,
+        position: 'top',
+        type: 'result',
+      },
+      action: 'markEnd',
+    };
+  },
+};
+
+export const searchTemplate: OperationTemplate = {
+  run: (trie, op) => trie.search(op.word),
+  start: (_event, ctx) => ({
+    description: `开始搜索单词 "${ctx.word}"`,
+    lines: codeLines('search.begin'),
+    variables: { word: ctx.word, node: 'root' },
+    annotation: {
+      text: `搜索 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  visit: prefixVisit('word'),
+  fail: (event, ctx) => ({
+    description: `字符 '${event.char}' 不存在，搜索失败`,
+    lines: codeLines('prefix.fail'),
+    variables: { word: ctx.word, char: event.char, index: event.index, found: false },
+    annotation: {
+      text: `'${event.char}' 不存在 ✗`,
+      position: 'right',
+      type: 'result',
+    },
+    action: 'returnResult',
+  }),
+  return: (event, ctx): StepSpec => {
+    if (ctx.failed) {
+      return {
+        description: `返回 false，单词 "${ctx.word}" 不在Trie中`,
+        lines: codeLines('search.return'),
+        variables: { word: ctx.word, result: false },
+        action: 'returnResult',
+      };
+    }
+    const isEnd = event.value === true;
+    return {
+      description: isEnd
+        ? `节点标记为单词结尾，搜索成功！返回 true`
+        : `节点未标记为单词结尾，搜索失败。返回 false`,
+      lines: codeLines('prefix.return', 'search.return'),
+      variables: { word: ctx.word, isEnd, result: isEnd },
+      annotation: {
+        text: isEnd ? `是单词结尾 ✓` : `非单词结尾 ✗`,
+        position: 'top',
+        type: 'result',
+      },
+      action: 'checkEnd',
+    };
+  },
+};
+
+export const startsWithTemplate: OperationTemplate = {
+  run: (trie, op) => trie.startsWith(op.word),
+  start: (_event, ctx) => ({
+    description: `开始搜索前缀 "${ctx.word}"`,
+    lines: codeLines('startsWith.begin', 'startsWith.return'),
+    variables: { prefix: ctx.word, node: 'root' },
+    annotation: {
+      text: `搜索前缀 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  visit: prefixVisit('prefix'),
+  fail: (event, ctx) => ({
+    description: `字符 '${event.char}' 不存在，前缀不存在`,
+    lines: codeLines('prefix.fail'),
+    variables: { prefix: ctx.word, char: event.char, index: event.index, found: false },
+    annotation: {
+      text: `'${event.char}' 不存在 ✗`,
+      position: 'right',
+      type: 'result',
+    },
+    action: 'returnResult',
+  }),
+  return: (_event, ctx) => ctx.failed
+    ? {
+        description: `返回 false，前缀 "${ctx.word}" 不存在`,
+        lines: codeLines('startsWith.return'),
+        variables: { prefix: ctx.word, result: false },
+        action: 'returnResult',
+      }
+    : {
+        description: `前缀 "${ctx.word}" 存在，返回 true`,
+        lines: codeLines('prefix.return', 'startsWith.return'),
+        variables: { prefix: ctx.word, result: true },
+        annotation: {
+          text: `前缀存在 ✓`,
+          position: 'top',
+          type: 'result',
+        },
+        action: 'returnResult',
+      },
+};
+
+// countWordsEqualTo 与 countWordsStartingWith 共用 searchPrefix，只是最后读取的计数不同
+function countTemplate(mode: 'equal' | 'prefix'): OperationTemplate {
+  const isEqual = mode === 'equal';
+  const counterName = isEqual ? 'endCount' : 'passCount';
+  const lines = isEqual
+    ? {
+        start: codeLines('countEqual.begin'),
+        notFound: codeLines('prefix.fail', 'countEqual.notFound'),
+        found: codeLines('prefix.return', 'countEqual.return'),
+      }
+    : {
+        start: codeLines('countPrefix.begin'),
+        notFound: codeLines('prefix.fail', 'countPrefix.notFound'),
+        found: codeLines('prefix.return', 'countPrefix.return'),
+      };
+  
+  return {
+    run: (trie, op) => (isEqual ? trie.countWordsEqualTo(op.word) : trie.countWordsStartingWith(op.word)),
+    start: (_event, ctx) => ({
+      description: isEqual
+        ? `开始统计等于 "${ctx.word}" 的单词个数`
+        : `开始统计以 "${ctx.word}" 为前缀的单词个数`,
+      lines: lines.start,
+      variables: { word: ctx.word, node: 'root' },
+      annotation: {
+        text: isEqual ? `统计 "${ctx.word}"` : `统计前缀 "${ctx.word}"`,
+        position: 'top',
+        type: 'action',
+      },
+    }),
+    visit: prefixVisit('word'),
+    // 路径中断，计数为 0，不再单独生成返回步骤
+    fail: (event, ctx) => ({
+      description: `字符 '${event.char}' 不存在，返回 0`,
+      lines: lines.notFound,
+      variables: { word: ctx.word, char: event.char, index: event.index, result: 0 },
+      annotation: {
+        text: `'${event.char}' 不存在，计数 0`,
+        position: 'right',
+        type: 'result',
+      },
+      action: 'returnResult',
+    }),
+    return: (event, ctx) => ctx.failed ? null : {
+      description: `读取末尾节点的 ${counterName}，返回 ${event.value}`,
+      lines: lines.found,
+      variables: { word: ctx.word, [counterName]: event.value as number, result: event.value as number },
+      annotation: {
+        text: `${counterName} = ${event.value}`,
+        position: 'top',
+        type: 'value',
+      },
+      action: 'returnResult',
+    },
+  };
+}
+
+export const deleteTemplate: OperationTemplate = {
+  // erase 没有返回值，验证结果时对应 null
+  run: (trie, op) => {
+    trie.delete(op.word);
+    return undefined;
+  },
+  start: (_event, ctx) => ({
+    description: `开始删除单词 "${ctx.word}"，记录沿途经过的节点`,
+    lines: codeLines('delete.begin'),
+    variables: { word: ctx.word, node: 'root' },
+    annotation: {
+      text: `删除 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  visit: (event, ctx) => ({
+    description: `找到字符 '${event.char}'，移动到子节点并记入路径`,
+    lines: codeLines('delete.loop', 'delete.move'),
+    variables: { word: ctx.word, char: event.char, index: event.index },
+    annotation: {
+      text: `找到 '${event.char}'`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'moveToChild',
+  }),
+  fail: (event, ctx) => ({
+    description: `字符 '${event.char}' 不存在，单词 "${ctx.word}" 不在Trie中，无需删除`,
+    lines: codeLines('delete.fail'),
+    variables: { word: ctx.word, char: event.char, index: event.index, found: false },
+    annotation: {
+      text: `'${event.char}' 不存在 ✗`,
+      position: 'right',
+      type: 'result',
+    },
+    action: 'returnResult',
+  }),
+  // 是单词结尾时直接进入下一步取消标记，不单独生成步骤
+  checkEnd: (event, ctx) => event.node.isEnd ? null : {
+    description: `节点未标记为单词结尾，"${ctx.word}" 只是前缀，无需删除`,
+    lines: codeLines('delete.notEnd'),
+    variables: { word: ctx.word, isEnd: false },
+    annotation: {
+      text: `非单词结尾 ✗`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'checkEnd',
+  },
+  unmarkEnd: (event, ctx) => ({
+    description: event.node.isEnd
+      ? `endCount 减为 ${event.node.endCount}，"${ctx.word}" 仍有重复插入，保留结尾标记`
+      : `endCount 减为 0，取消节点的单词结尾标记，"${ctx.word}" 不再是Trie中的单词`,
+    lines: codeLines('delete.unmark'),
+    variables: { word: ctx.word, endCount: event.node.endCount, isEnd: event.node.isEnd },
+    annotation: {
+      text: event.node.isEnd ? `end=${event.node.endCount}，仍是结尾` : `取消结尾标记`,
+      position: 'top',
+      type: 'action',
+    },
+    action: 'unmarkEnd',
+  }),
+  backtrack: (event, ctx) => ({
+    description: `节点 '${event.char}' 的 passCount 减为 ${event.node.passCount}，仍有其他单词经过，保留`,
+    lines: codeLines('delete.backtrack', 'delete.decPass', 'delete.checkPrune'),
+    variables: { word: ctx.word, index: event.index + 1, passCount: event.node.passCount },
+    annotation: {
+      text: `pass=${event.node.passCount}，保留`,
+      position: 'top',
+      type: 'value',
+    },
+    action: 'checkEnd',
+  }),
+  prune: (event, ctx) => ({
+    description: `节点 '${event.char}' 的 passCount 减为 0，没有单词再经过，从父节点中删除`,
+    lines: codeLines('delete.decPass', 'delete.checkPrune', 'delete.prune'),
+    variables: { word: ctx.word, index: event.index + 1, char: event.char, passCount: 0, action: 'prune' },
+    annotation: {
+      text: `剪掉子节点 '${event.char}'`,
+      position: 'right',
+      type: 'action',
+    },
+    action: 'pruneNode',
+  }),
+  // 未找到或不是结尾时，失败原因已在前一步说明
+  return: (event, ctx) => event.value === true ? {
+    description: `回溯到根节点，"${ctx.word}" 删除完成`,
+    lines: codeLines('delete.end'),
+    variables: { word: ctx.word },
+    annotation: {
+      text: `删除完成 ✓`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'returnResult',
+  } : null,
+};
+
+export const autocompleteTemplate: OperationTemplate = {
+  run: (trie, op) => trie.autocomplete(op.word, op.k),
+  start: (_event, ctx) => ({
+    description: ctx.k > 0
+      ? `开始自动补全前缀 "${ctx.word}"，返回出现次数最多的前 ${ctx.k} 个单词`
+      : `开始自动补全前缀 "${ctx.word}"，返回所有以它开头的单词`,
+    lines: codeLines('autocomplete.begin'),
+    variables: { prefix: ctx.word, k: ctx.k, node: 'root' },
+    annotation: {
+      text: `补全 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+    collectedWords: [],
+  }),
+  visit: (event, ctx) => ({ ...prefixVisit('prefix')(event, ctx), collectedWords: [] }),
+  fail: (event, ctx) => ({
+    description: `字符 '${event.char}' 不存在，没有以 "${ctx.word}" 开头的单词，返回空列表`,
+    lines: codeLines('prefix.fail', 'autocomplete.notFound'),
+    variables: { prefix: ctx.word, char: event.char, index: event.index, found: false },
+    annotation: {
+      text: `'${event.char}' 不存在 ✗`,
+      position: 'right',
+      type: 'result',
+    },
+    collectedWords: [],
+    action: 'returnResult',
+  }),
+  // 在前缀子树上做深度优先遍历，按字典序访问子节点，经过单词结尾时收集
+  collect: (event, ctx): StepSpec => {
+    const isSubtreeRoot = event.word === ctx.word;
+    const visited = isSubtreeRoot
+      ? `前缀 "${ctx.word}" 存在，从该节点开始深度优先遍历子树`
+      : `深度优先访问节点 '${event.node.char}'，当前路径 "${event.word}"`;
+    const anchors: CodeAnchor[] = isSubtreeRoot
+      ? ['prefix.return', 'autocomplete.collect', 'collect.begin']
+      : ['collect.child'];
+    if (!event.node.isEnd) {
+      return {
+        description: visited,
+        lines: codeLines(...anchors),
+        variables: { prefix: ctx.word, path: event.word, found: ctx.collected.length },
+        annotation: {
+          text: `访问 "${event.word}"`,
+          position: 'top',
+          type: 'action',
+        },
+        collectedWords: [...ctx.collected],
+        action: 'visitNode',
+      };
+    }
+    return {
+      description: `${visited}，节点是单词结尾，收集单词 "${event.word}"（出现 ${event.node.endCount} 次）`,
+      lines: codeLines(...anchors, 'collect.word'),
+      variables: { prefix: ctx.word, path: event.word, endCount: event.node.endCount, found: ctx.collected.length },
+      annotation: {
+        text: `收集 "${event.word}" ×${event.node.endCount}`,
+        position: 'right',
+        type: 'result',
+      },
+      collectedWords: [...ctx.collected],
+      action: 'collectWord',
+    };
+  },
+  return: (event, ctx) => {
+    if (ctx.failed) return null;
+    const results = event.value as string[];
+    return {
+      description: ctx.k > 0
+        ? `共找到 ${ctx.collected.length} 个单词，按出现次数降序排序后返回前 ${ctx.k} 个`
+        : results.length > 0
+          ? `自动补全完成，返回 ${results.length} 个单词`
+          : `前缀 "${ctx.word}" 下没有完整单词，返回空列表`,
+      lines: ctx.k > 0
+        ? codeLines('autocomplete.topK', 'autocomplete.returnTopK')
+        : codeLines('autocomplete.return'),
+      variables: { prefix: ctx.word, k: ctx.k, found: ctx.collected.length, result: results.length },
+      annotation: {
+        text: ctx.k > 0 && results.length > 0 ? `Top ${ctx.k}: ${results.join(', ')}` : `返回 ${results.length} 个单词 ✓`,
+        position: 'top',
+        type: 'result',
+      },
+      collectedWords: results,
+      action: 'returnResult',
+    };
+  },
+};
+
+export const wildcardTemplate: OperationTemplate = {
+  run: (trie, op) => trie.searchWildcard(op.word),
+  start: (_event, ctx) => ({
+    description: `开始通配符搜索 "${ctx.word}"，'.' 可以匹配任意一个字符`,
+    lines: codeLines('wildcard.begin', 'wildcard.call'),
+    variables: { word: ctx.word, i: 0 },
+    annotation: {
+      text: `搜索 "${ctx.word}"`,
+      position: 'top',
+      type: 'action',
+    },
+  }),
+  branch: (event, ctx) => ({
+    description: event.options.length > 0
+      ? `第 ${event.index + 1} 位是通配符 '.'，依次尝试 ${event.options.length} 个分支: ${event.options.join(', ')}`
+      : `第 ${event.index + 1} 位是通配符 '.'，但${nodeLabel(event.node)}没有子节点`,
+    lines: codeLines('match.isDot', 'match.loop'),
+    variables: { word: ctx.word, i: event.index, ch: event.char, branches: event.options.length },
+    annotation: {
+      text: `'.' → ${event.options.length} 个分支`,
+      position: 'right',
+      type: 'info',
+    },
+    action: 'branch',
+  }),
+  visit: (event, ctx): StepSpec => ctx.word[event.index] === '.'
+    ? {
+        description: `尝试分支 '${event.char}'，用它匹配第 ${event.index + 1} 位的 '.'`,
+        lines: codeLines('match.try'),
+        variables: { word: ctx.word, i: event.index, ch: event.char },
+        annotation: {
+          text: `探索 '${event.char}'`,
+          position: 'top',
+          type: 'action',
+        },
+        action: 'moveToChild',
+      }
+    : {
+        description: `字符 '${event.char}' 匹配，移动到子节点`,
+        lines: codeLines('match.readChar', 'match.child'),
+        variables: { word: ctx.word, i: event.index, ch: event.char },
+        annotation: {
+          text: `匹配 '${event.char}'`,
+          position: 'top',
+          type: 'action',
+        },
+        action: 'moveToChild',
+      },
+  checkEnd: (event, ctx) => ({
+    description: event.node.isEnd
+      ? `模式已匹配完，节点是单词结尾，返回 true`
+      : `模式已匹配完，但节点不是单词结尾，返回 false`,
+    lines: codeLines('match.end'),
+    variables: { word: ctx.word, i: ctx.word.length, isEnd: event.node.isEnd },
+    annotation: {
+      text: event.node.isEnd ? `是单词结尾 ✓` : `非单词结尾 ✗`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'checkEnd',
+  }),
+  // 普通字符的子树匹配失败时直接向上返回，不单独生成步骤
+  backtrack: (event, ctx): StepSpec | null => {
+    if (ctx.word[event.index] !== '.') return null;
+    return event.matched
+      ? {
+          description: `分支 '${event.char}' 匹配成功，向上返回 true`,
+          lines: codeLines('match.found'),
+          variables: { word: ctx.word, i: event.index, ch: event.char, result: true },
+          annotation: {
+            text: `返回 true ✓`,
+            position: 'right',
+            type: 'result',
+          },
+          action: 'returnResult',
+        }
+      : {
+          description: `分支 '${event.char}' 匹配失败，回溯到${nodeLabel(event.node.parent!)}`,
+          lines: codeLines('match.loop', 'match.try'),
+          variables: { word: ctx.word, i: event.index, ch: event.char, result: false },
+          annotation: {
+            text: `回溯 ✗`,
+            position: 'top',
+            type: 'result',
+          },
+          action: 'backtrack',
+        };
+  },
+  fail: (event, ctx): StepSpec => event.char === '.'
+    ? {
+        description: `${nodeLabel(event.node)}的所有分支都无法匹配，返回 false`,
+        lines: codeLines('match.exhausted'),
+        variables: { word: ctx.word, i: event.index, result: false },
+        annotation: {
+          text: `返回 false`,
+          position: 'right',
+          type: 'result',
+        },
+        action: 'returnResult',
+      }
+    : {
+        // 普通字符不存在，这条路径被剪枝
+        description: `字符 '${event.char}' 不存在，剪枝，返回 false`,
+        lines: codeLines('match.child'),
+        variables: { word: ctx.word, i: event.index, ch: event.char, found: false },
+        annotation: {
+          text: `'${event.char}' 不存在 ✗`,
+          position: 'right',
+          type: 'result',
+        },
+        action: 'returnResult',
+      },
+  return: (event, ctx) => ({
+    description: event.value
+      ? `通配符搜索 "${ctx.word}" 成功，返回 true`
+      : `通配符搜索 "${ctx.word}" 失败，返回 false`,
+    lines: codeLines('wildcard.call'),
+    variables: { word: ctx.word, result: event.value === true },
+    annotation: {
+      text: event.value ? `返回 true ✓` : `返回 false ✗`,
+      position: 'top',
+      type: 'result',
+    },
+    action: 'returnResult',
+  }),
+};
+
+function nodeLabel(node: TrieNode): string {
+  return node.char ? `'${node.char}'` : '根节点';
+}
+
+export const STEP_TEMPLATES: Partial<Record<OperationType, OperationTemplate>> = {
+  insert: insertTemplate,
+  search: searchTemplate,
+  startsWith: startsWithTemplate,
+  countWordsEqualTo: countTemplate('equal'),
+  countWordsStartingWith: countTemplate('prefix'),
+  delete: deleteTemplate,
+  autocomplete: autocompleteTemplate,
+  searchWildcard: wildcardTemplate,
+};
@@ -0,0 +1,153 @@
+import type { Annotation, AlgorithmStep, Operation, OperationType, RadixNode, TrieNode } from '../types';
+import type { Trie } from './trie';
+import type { StepRecorder } from './stepRecorder';
+
+// Trie / 压缩前缀树的方法执行时发出的事件，步骤构建器据此生成可视化步骤，算法本身不再关心步骤长什么样
+
+export type TrieEvent =
+  | { type: 'start'; operation: OperationType; word: string }
+  | { type: 'create'; node: TrieNode; char: string; index: number; path: TrieNode[] } // 新建子节点并移动过去
+  | { type: 'visit'; node: TrieNode; char: string; index: number; path: TrieNode[] } // 移动到已有的子节点
+  | { type: 'fail'; node: TrieNode; char: string; index: number; path: TrieNode[] } // 当前节点没有能匹配字符 char 的子节点
+  | { type: 'markEnd'; node: TrieNode; path: TrieNode[] }
+  | { type: 'checkEnd'; node: TrieNode; path: TrieNode[] } // 读取节点的结尾标记
+  | { type: 'unmarkEnd'; node: TrieNode; path: TrieNode[] } // 结尾计数减一，归零时取消结尾标记
+  | { type: 'backtrack'; node: TrieNode; char: string; index: number; path: TrieNode[]; matched?: boolean } // 离开节点回到父节点
+  | { type: 'prune'; node: TrieNode; char: string; index: number; path: TrieNode[] } // 从 node 中剪掉字符 char 的子节点
+  | { type: 'branch'; node: TrieNode; char: string; index: number; path: TrieNode[]; options: string[] } // 通配符依次尝试各个子节点
+  | { type: 'collect'; node: TrieNode; word: string; path: TrieNode[] } // 深度优先收集单词时访问节点
+  | { type: 'return'; value: boolean | number | string[]; path?: TrieNode[] }; // path 为返回时回到的节点
+
+export type TrieTracer = (event: TrieEvent) => void;
+
+// 压缩前缀树沿整条边移动，index 为边（或剩余部分）在单词中的起始位置
+export type RadixEvent =
+  | { type: 'start'; operation: OperationType; word: string }
+  | { type: 'create'; node: RadixNode; index: number; path: RadixNode[] } // 剩余部分整段作为新边，创建叶子节点
+  | { type: 'split'; node: RadixNode; label: string; index: number; path: RadixNode[] } // 边 label 只匹配了前一段，拆出中间节点 node
+  | { type: 'visit'; node: RadixNode; index: number; path: RadixNode[] } // 整条边匹配，移动到子节点
+  | { type: 'partial'; node: RadixNode; index: number; path: RadixNode[] } // 查询串在通往 node 的边中途结束
+  | { type: 'fail'; node: RadixNode; index: number; path: RadixNode[]; edge?: RadixNode } // 没有以 word[index] 开头的边，或边 edge 与剩余部分不一致
+  | { type: 'mismatch'; node: RadixNode; index: number; path: RadixNode[] } // 通配符搜索中边的标签与模式片段不匹配
+  | { type: 'markEnd'; node: RadixNode; path: RadixNode[] }
+  | { type: 'checkEnd'; node: RadixNode; path: RadixNode[] }
+  | { type: 'unmarkEnd'; node: RadixNode; path: RadixNode[] }
+  | { type: 'backtrack'; node: RadixNode; index: number; path: RadixNode[]; matched?: boolean }
+  | { type: 'prune'; node: RadixNode; label: string; index: number; path: RadixNode[] } // 从 node 中剪掉边 label
+  | { type: 'merge'; node: RadixNode; label: string; path: RadixNode[] } // 节点 label 与唯一的子节点合并成 node
+  | { type: 'branch'; node: RadixNode; index: number; path: RadixNode[]; options: string[] } // options 为依次尝试的边
+  | { type: 'collect'; node: RadixNode; word: string; path: RadixNode[] }
+  | { type: 'return'; value: boolean | number | string[]; path?: RadixNode[] };
+
+export type RadixTracer = (event: RadixEvent) => void;
+
+// 能生成步骤的结构：执行操作时把事件发给 tracer
+export interface Traceable<N, E> {
+  root: N;
+  tracer: ((event: E) => void) | null;
+}
+
+type NodeOf<S> = S extends Traceable<infer N, never> ? N : never;
+type EventOf<S> = S extends Traceable<unknown, infer E extends { type: string }> ? E : never;
+
+// 构建器只用到节点与事件的这些公共字段
+interface TracedNode {
+  id: string;
+  isEnd: boolean;
+}
+
+interface TracedEvent {
+  type: string;
+  node?: TracedNode;
+  path?: TracedNode[];
+  char?: string;
+  index?: number;
+  word?: string;
+  matched?: boolean;
+}
+
+// 构建步骤时的上下文：当前所在节点与从根到它的路径
+export interface TraceContext<N = TrieNode> {
+  word: string;
+  k: number; // 自动补全的 k，其他操作为 0
+  node: N;
+  path: N[];
+  failed: boolean; // 是否已因字符不存在而中断
+  collected: string[]; // 已收集到的单词
+  failedNodes: string[]; // 已探索并匹配失败的分支
+}
+
+// 模板为一个事件给出的步骤内容，高亮路径、当前字符、标注所在节点与结构增量由构建器填充
+export interface StepSpec {
+  description: string;
+  lines: AlgorithmStep['codeLineMap'];
+  variables: AlgorithmStep['variables'];
+  annotation?: Omit<Annotation, 'nodeId' | 'edgeId'>;
+  action?: AlgorithmStep['action'];
+  collectedWords?: string[];
+}
+
+type EventHandlers<S> = {
+  [K in EventOf<S>['type']]?: (event: Extract<EventOf<S>, { type: K }>, ctx: TraceContext<NodeOf<S>>) => StepSpec | null;
+};
+
+// 一种操作的描述模板：run 调用算法本身，各事件处理函数返回对应步骤的内容，返回 null 或缺省表示不生成步骤
+export type OperationTemplate<S = Trie> = EventHandlers<S> & {
+  run: (trie: S, op: Operation) => Operation['result'];
+};
+
+// 挂上 tracer 执行一次操作，把发出的事件逐个翻译成步骤，返回操作结果
+export function traceOperation<S extends Traceable<TracedNode, never>>(
+  trie: S,
+  recorder: StepRecorder,
+  op: Operation,
+  template: OperationTemplate<S>,
+): Operation['result'] {
+  const ctx: TraceContext<TracedNode> = {
+    word: op.word,
+    k: op.k ?? 0,
+    node: trie.root,
+    path: [trie.root],
+    failed: false,
+    collected: [],
+    failedNodes: [],
+  };
+  const traced = trie as unknown as Traceable<TracedNode, TracedEvent>;
+  
+  traced.tracer = event => {
+    if (event.path) {
+      ctx.path = event.path;
+      ctx.node = event.path[event.path.length - 1];
+    }
+    if (event.type === 'collect' && event.node!.isEnd) {
+      ctx.collected.push(event.word!);
+    } else if ((event.type === 'backtrack' && event.matched === false) || event.type === 'mismatch') {
+      ctx.failedNodes.push(event.node!.id);
+    }
+    const handler = template[event.type as keyof EventHandlers<S>] as
+      ((event: TracedEvent, ctx: TraceContext<TracedNode>) => StepSpec | null) | undefined;
+    const spec = handler?.(event, ctx);
+    if (event.type === 'fail') {
+      ctx.failed = true;
+    }
+    if (!spec) return;
+    
+    recorder.push({
+      description: spec.description,
+      codeLineMap: spec.lines,
+      highlightedNodes: ctx.path.map(node => node.id),
+      ...(event.char !== undefined ? { currentChar: event.char, currentCharIndex: event.index } : {}),
+      variables: spec.variables,
+      annotations: spec.annotation ? [{ nodeId: ctx.node.id, ...spec.annotation }] : [],
+      ...(spec.action ? { action: spec.action } : {}),
+      ...(spec.collectedWords ? { collectedWords: spec.collectedWords } : {}),
+      ...(ctx.failedNodes.length > 0 ? { failedNodes: [...ctx.failedNodes] } : {}),
+    });
+  };
+  
+  try {
+    return template.run(trie, op);
+  } finally {
+    traced.tracer = null;
+  }
+}
@@ -1,118 +1,259 @@
-import type { TrieNode, VisualNode, AlgorithmStep, Operation } from '../types';
+import type { TrieNode, AlgorithmStep, Operation, StepProgressHandler } from '../types';
+import { DeltaJournal } from './snapshot';
+import { StepRecorder } from './stepRecorder';
+import { traceOperation, type TrieTracer } from './tracer';
+import { STEP_TEMPLATES } from './stepTemplates';
+import { codeLines } from './codeSnippets';
 
-// 生成唯一ID
-let nodeIdCounter = 0;
-function generateNodeId(): string {
-  return `node-${nodeIdCounter++}`;
-}
-
-// 重置ID计数器
-export function resetNodeIdCounter(): void {
-  nodeIdCounter = 0;
-}
+// 节点ID由从根到该节点的前缀决定（根为 "node:"，前缀 "ab" 为 "node:ab"），
+// 与创建顺序无关：同一前缀在不同运行、不同Trie实例中ID相同，删除后重新插入也保持不变
+const ROOT_ID = 'node:';
 
 // 创建Trie节点
 export function createTrieNode(char: string, depth: number, parent: TrieNode | null): TrieNode {
   return {
-    id: generateNodeId(),
+    id: parent ? parent.id + char : ROOT_ID,
     char,
     children: new Map(),
     isEnd: false,
+    passCount: 0,
+    endCount: 0,
     depth,
     parent,
   };
 }
 
+// 沿父指针得到从根到 node 的路径
+function pathTo(node: TrieNode): TrieNode[] {
+  const path: TrieNode[] = [];
+  for (let current: TrieNode | null = node; current; current = current.parent) {
+    path.unshift(current);
+  }
+  return path;
+}
+
 // Trie类
 export class Trie {
   root: TrieNode;
+  readonly journal = new DeltaJournal(); // 记录结构修改，生成步骤时逐步取走
+  tracer: TrieTracer | null = null; // 生成步骤时挂上，接收算法执行过程中的事件
   
   constructor() {
-    resetNodeIdCounter();
     this.root = createTrieNode('', 0, null);
+    this.journal.create(this.root.id, null, this.root);
   }
   
   insert(word: string): void {
     let node = this.root;
-    for (const char of word) {
-      if (!node.children.has(char)) {
-        node.children.set(char, createTrieNode(char, node.depth + 1, node));
+    const path = [node];
+    this.tracer?.({ type: 'start', operation: 'insert', word });
+    for (let i = 0; i < word.length; i++) {
+      const char = word[i];
+      const created = !node.children.has(char);
+      if (created) {
+        this.addChild(node, char);
       }
       node = node.children.get(char)!;
+      node.passCount++;
+      this.journal.update(node.id, { passCount: node.passCount });
+      path.push(node);
+      this.tracer?.({ type: created ? 'create' : 'visit', node, char, index: i, path: [...path] });
     }
     node.isEnd = true;
+    node.endCount++;
+    this.journal.update(node.id, { isEnd: true, endCount: node.endCount });
+    this.tracer?.({ type: 'markEnd', node, path });
+  }
+  
+  // 创建子节点并记录增量
+  addChild(node: TrieNode, char: string): TrieNode {
+    const child = createTrieNode(char, node.depth + 1, node);
+    node.children.set(char, child);
+    this.journal.create(child.id, node.id, child);
+    return child;
+  }
+  
+  // 从父节点中删除子节点（连同子树）并记录增量
+  removeChild(node: TrieNode, char: string): void {
+    const child = node.children.get(char)!;
+    node.children.delete(char);
+    this.journal.remove(child.id);
+  }
+  
+  // 删除所有节点，回到只有根节点的初始状态
+  clear(): void {
+    for (const char of [...this.root.children.keys()]) {
+      this.removeChild(this.root, char);
+    }
   }
   
   search(word: string): boolean {
+    this.tracer?.({ type: 'start', operation: 'search', word });
     const node = this.searchPrefix(word);
-    return node !== null && node.isEnd;
+    const result = node !== null && node.isEnd;
+    this.tracer?.({ type: 'return', value: result });
+    return result;
   }
   
   startsWith(prefix: string): boolean {
-    return this.searchPrefix(prefix) !== null;
+    this.tracer?.({ type: 'start', operation: 'startsWith', word: prefix });
+    const result = this.searchPrefix(prefix) !== null;
+    this.tracer?.({ type: 'return', value: result });
+    return result;
+  }
+  
+  countWordsEqualTo(word: string): number {
+    this.tracer?.({ type: 'start', operation: 'countWordsEqualTo', word });
+    const result = this.searchPrefix(word)?.endCount ?? 0;
+    this.tracer?.({ type: 'return', value: result });
+    return result;
+  }
+  
+  countWordsStartingWith(prefix: string): number {
+    this.tracer?.({ type: 'start', operation: 'countWordsStartingWith', word: prefix });
+    const result = this.searchPrefix(prefix)?.passCount ?? 0;
+    this.tracer?.({ type: 'return', value: result });
+    return result;
+  }
+  
+  // 收集以 prefix 开头的所有单词（字典序），k > 0 时按出现次数取前 k 个
+  autocomplete(prefix: string, k: number = 0): string[] {
+    this.tracer?.({ type: 'start', operation: 'autocomplete', word: prefix });
+    const node = this.searchPrefix(prefix);
+    if (node === null) {
+      this.tracer?.({ type: 'return', value: [] });
+      return [];
+    }
+    const found: { word: string; count: number }[] = [];
+    const collect = (current: TrieNode, word: string, path: TrieNode[]) => {
+      if (current.isEnd) {
+        found.push({ word, count: current.endCount });
+      }
+      this.tracer?.({ type: 'collect', node: current, word, path });
+      for (const char of [...current.children.keys()].sort()) {
+        const child = current.children.get(char)!;
+        collect(child, word + char, [...path, child]);
+      }
+    };
+    const path = pathTo(node);
+    collect(node, prefix, path);
+    // 按出现次数稳定排序，次数相同时保持字典序
+    const result = k > 0
+      ? [...found].sort((a, b) => b.count - a.count).slice(0, k).map(item => item.word)
+      : found.map(item => item.word);
+    this.tracer?.({ type: 'return', value: result, path });
+    return result;
+  }
+  
+  // 支持 '.' 通配符的搜索，'.' 可以匹配任意一个字符
+  searchWildcard(pattern: string): boolean {
+    this.tracer?.({ type: 'start', operation: 'searchWildcard', word: pattern });
+    const matchFrom = (node: TrieNode, i: number, path: TrieNode[]): boolean => {
+      if (i === pattern.length) {
+        this.tracer?.({ type: 'checkEnd', node, path });
+        return node.isEnd;
+      }
+      const char = pattern[i];
+      if (char === '.') {
+        const options = [...node.children.keys()].sort();
+        this.tracer?.({ type: 'branch', node, char, index: i, path, options });
+        for (const key of options) {
+          if (this.matchChild(node, key, i, path, matchFrom)) {
+            return true;
+          }
+        }
+        this.tracer?.({ type: 'fail', node, char, index: i, path });
+        return false;
+      }
+      if (!node.children.has(char)) {
+        this.tracer?.({ type: 'fail', node, char, index: i, path });
+        return false;
+      }
+      return this.matchChild(node, char, i, path, matchFrom);
+    };
+    const result = matchFrom(this.root, 0, [this.root]);
+    this.tracer?.({ type: 'return', value: result, path: [this.root] });
+    return result;
+  }
+  
+  // 通配符搜索中进入字符 char 的子节点继续匹配，返回后回到当前节点
+  private matchChild(
+    node: TrieNode,
+    char: string,
+    index: number,
+    path: TrieNode[],
+    matchFrom: (node: TrieNode, i: number, path: TrieNode[]) => boolean,
+  ): boolean {
+    const child = node.children.get(char)!;
+    const childPath = [...path, child];
+    this.tracer?.({ type: 'visit', node: child, char, index, path: childPath });
+    const matched = matchFrom(child, index + 1, childPath);
+    this.tracer?.({ type: 'backtrack', node: child, char, index, path: childPath, matched });
+    return matched;
+  }
+  
+  // 删除一次单词，沿途计数减一，并剪掉计数归零的节点
+  delete(word: string): boolean {
+    this.tracer?.({ type: 'start', operation: 'delete', word });
+    const node = this.searchPrefix(word);
+    if (node === null) {
+      this.tracer?.({ type: 'return', value: false });
+      return false;
+    }
+    const path = pathTo(node);
+    this.tracer?.({ type: 'checkEnd', node, path });
+    if (!node.isEnd) {
+      this.tracer?.({ type: 'return', value: false });
+      return false;
+    }
+    node.endCount--;
+    node.isEnd = node.endCount > 0;
+    this.journal.update(node.id, { isEnd: node.isEnd, endCount: node.endCount });
+    this.tracer?.({ type: 'unmarkEnd', node, path });
+    // 自底向上回溯，经过计数减一，归零的节点已无单词经过，从父节点中剪掉
+    for (let i = word.length; i > 0; i--) {
+      const current = path[i];
+      current.passCount--;
+      this.journal.update(current.id, { passCount: current.passCount });
+      if (current.passCount === 0) {
+        this.removeChild(path[i - 1], word[i - 1]);
+        this.tracer?.({ type: 'prune', node: path[i - 1], char: word[i - 1], index: i - 1, path: path.slice(0, i) });
+      } else {
+        this.tracer?.({ type: 'backtrack', node: current, char: word[i - 1], index: i - 1, path: path.slice(0, i + 1) });
+      }
+    }
+    this.tracer?.({ type: 'return', value: true, path: [this.root] });
+    return true;
   }
   
   private searchPrefix(prefix: string): TrieNode | null {
-    let node: TrieNode | null = this.root;
-    for (const char of prefix) {
+    let node: TrieNode = this.root;
+    const path = [node];
+    for (let i = 0; i < prefix.length; i++) {
+      const char = prefix[i];
       if (!node.children.has(char)) {
+        this.tracer?.({ type: 'fail', node, char, index: i, path });
         return null;
       }
       node = node.children.get(char)!;
+      path.push(node);
+      this.tracer?.({ type: 'visit', node, char, index: i, path: [...path] });
     }
     return node;
   }
-  
-  // 转换为可视化节点
-  toVisualNode(): VisualNode {
-    return this.convertToVisual(this.root, 0, 0);
-  }
-  
-  private convertToVisual(node: TrieNode, x: number, y: number): VisualNode {
-    const children: VisualNode[] = [];
-    let childIndex = 0;
-    const childCount = node.children.size;
-    
-    node.children.forEach((child) => {
-      const childX = x + (childIndex - (childCount - 1) / 2) * 80;
-      const childY = y + 80;
-      children.push(this.convertToVisual(child, childX, childY));
-      childIndex++;
-    });
-    
-    return {
-      id: node.id,
-      char: node.char || 'root',
-      isEnd: node.isEnd,
-      x,
-      y,
-      depth: node.depth,
-      children,
-      highlighted: false,
-    };
-  }
 }
 
-// 生成算法步骤
-export function generateSteps(operations: Operation[]): AlgorithmStep[] {
-  const steps: AlgorithmStep[] = [];
+// 生成算法步骤，onProgress 在每个操作完成后收到该操作新生成的步骤
+export function generateSteps(operations: Operation[], onProgress?: StepProgressHandler): AlgorithmStep[] {
   const trie = new Trie();
-  let stepIndex = 0;
+  const recorder = new StepRecorder(trie.journal);
   
   // 初始步骤
-  steps.push({
-    stepIndex: stepIndex++,
+  recorder.push({
     description: '初始化Trie（前缀树），创建根节点',
-    codeLineMap: {
-      java: [3, 4, 5],
-      python: [3, 4],
-      golang: [8, 9, 10],
-      javascript: [3, 4, 5],
-    },
+    codeLineMap: codeLines('init'),
     highlightedNodes: [trie.root.id],
-    highlightedEdges: [],
     variables: {},
-    trieSnapshot: trie.toVisualNode(),
     annotations: [{
       nodeId: trie.root.id,
       text: '根节点',
@@ -121,425 +262,40 @@ export function generateSteps(operations: Operation[]): AlgorithmStep[] {
     }],
   });
   
-  for (const op of operations) {
-    if (op.type === 'insert') {
-      const insertSteps = generateInsertSteps(trie, op.word, stepIndex);
-      steps.push(...insertSteps);
-      stepIndex += insertSteps.length;
-    } else if (op.type === 'search') {
-      const searchSteps = generateSearchSteps(trie, op.word, stepIndex);
-      steps.push(...searchSteps);
-      stepIndex += searchSteps.length;
-      op.result = trie.search(op.word);
-    } else if (op.type === 'startsWith') {
-      const startsWithSteps = generateStartsWithSteps(trie, op.word, stepIndex);
-      steps.push(...startsWithSteps);
-      stepIndex += startsWithSteps.length;
-      op.result = trie.startsWith(op.word);
+  operations.forEach((op, opIndex) => {
+    recorder.opIndex = opIndex;
+    if (op.disabled) {
+      op.result = undefined; // 停用的操作没有执行，不能沿用上次的结果
+      recorder.flush(opIndex + 1, onProgress);
+      return;
     }
-  }
-  
-  return steps;
-}
-
-function generateInsertSteps(trie: Trie, word: string, startIndex: number): AlgorithmStep[] {
-  const steps: AlgorithmStep[] = [];
-  let stepIndex = startIndex;
-  let node = trie.root;
-  const pathNodes: string[] = [node.id];
-  
-  // 开始插入
-  steps.push({
-    stepIndex: stepIndex++,
-    description: `开始插入单词 "${word}"`,
-    codeLineMap: {
-      java: [7],
-      python: [6],
-      golang: [13],
-      javascript: [7],
-    },
-    highlightedNodes: [node.id],
-    highlightedEdges: [],
-    currentChar: undefined,
-    currentCharIndex: -1,
-    variables: { word, node: 'root' },
-    trieSnapshot: trie.toVisualNode(),
-    annotations: [{
-      nodeId: node.id,
-      text: `插入 "${word}"`,
-      position: 'top',
-      type: 'action',
-    }],
-  });
-  
-  for (let i = 0; i < word.length; i++) {
-    const char = word[i];
-    const hasChild = node.children.has(char);
-    
-    if (!hasChild) {
-      // 创建新节点
-      const newNode = createTrieNode(char, node.depth + 1, node);
-      node.children.set(char, newNode);
-      
-      steps.push({
-        stepIndex: stepIndex++,
-        description: `字符 '${char}' 不存在，创建新节点`,
-        codeLineMap: {
-          java: [9, 10, 11],
-          python: [8, 9],
-          golang: [15, 16, 17],
-          javascript: [9, 10, 11],
-        },
-        highlightedNodes: [...pathNodes, newNode.id],
-        highlightedEdges: [],
-        currentChar: char,
-        currentCharIndex: i,
-        variables: { word, char, index: i, action: 'create' },
-        trieSnapshot: trie.toVisualNode(),
-        annotations: [
-          {
-            nodeId: newNode.id,
-            text: `新建节点 '${char}'`,
-            position: 'top',
-            type: 'action',
-          },
-        ],
-        action: 'createNode',
-      });
-      
-      node = newNode;
-    } else {
-      // 移动到子节点
-      const childNode = node.children.get(char)!;
-      
-      steps.push({
-        stepIndex: stepIndex++,
-        description: `字符 '${char}' 已存在，移动到子节点`,
-        codeLineMap: {
-          java: [12],
-          python: [10],
-          golang: [18],
-          javascript: [12],
-        },
-        highlightedNodes: [...pathNodes, childNode.id],
-        highlightedEdges: [],
-        currentChar: char,
-        currentCharIndex: i,
-        variables: { word, char, index: i, action: 'move' },
-        trieSnapshot: trie.toVisualNode(),
-        annotations: [
-          {
-            nodeId: childNode.id,
-            text: `移动到 '${char}'`,
-            position: 'top',
-            type: 'action',
-          },
-        ],
-        action: 'moveToChild',
-      });
-      
-      node = childNode;
-    }
-    
-    pathNodes.push(node.id);
-  }
-  
-  // 标记结束
-  node.isEnd = true;
-  
-  steps.push({
-    stepIndex: stepIndex++,
-    description: `标记节点为单词结尾，"${word}" 插入完成`,
-    codeLineMap: {
-      java: [14],
-      python: [11],
-      golang: [20],
-      javascript: [14],
-    },
-    highlightedNodes: pathNodes,
-    highlightedEdges: [],
-    variables: { word, isEnd: true },
-    trieSnapshot: trie.toVisualNode(),
-    annotations: [
-      {
-        nodeId: node.id,
-        text: `标记为结尾 ✓`,
-        position: 'top',
-        type: 'result',
-      },
-    ],
-    action: 'markEnd',
-  });
-  
-  return steps;
-}
-
-function generateSearchSteps(trie: Trie, word: string, startIndex: number): AlgorithmStep[] {
-  const steps: AlgorithmStep[] = [];
-  let stepIndex = startIndex;
-  let node: TrieNode = trie.root;
-  const pathNodes: string[] = [node.id];
-  
-  // 开始搜索
-  steps.push({
-    stepIndex: stepIndex++,
-    description: `开始搜索单词 "${word}"`,
-    codeLineMap: {
-      java: [17],
-      python: [13],
-      golang: [23],
-      javascript: [17],
-    },
-    highlightedNodes: [node.id],
-    highlightedEdges: [],
-    variables: { word, node: 'root' },
-    trieSnapshot: trie.toVisualNode(),
-    annotations: [{
-      nodeId: node.id,
-      text: `搜索 "${word}"`,
-      position: 'top',
-      type: 'action',
-    }],
-  });
-  
-  for (let i = 0; i < word.length; i++) {
-    const char = word[i];
-    
-    if (!node.children.has(char)) {
-      // 未找到
-      steps.push({
-        stepIndex: stepIndex++,
-        description: `字符 '${char}' 不存在，搜索失败`,
-        codeLineMap: {
-          java: [21, 22],
-          python: [17, 18],
-          golang: [27, 28],
-          javascript: [21, 22],
-        },
-        highlightedNodes: pathNodes,
-        highlightedEdges: [],
-        currentChar: char,
-        currentCharIndex: i,
-        variables: { word, char, index: i, found: false },
-        trieSnapshot: trie.toVisualNode(),
+    const template = STEP_TEMPLATES[op.type];
+    if (template) {
+      // 由 Trie 方法发出的事件 + 描述模板生成步骤
+      op.result = traceOperation(trie, recorder, op, template);
+    } else if (op.type === 'reset') {
+      trie.clear();
+      recorder.push({
+        description: '再次调用构造函数，丢弃之前的所有节点，重新创建一棵空的Trie',
+        codeLineMap: codeLines('init'),
+        highlightedNodes: [trie.root.id],
+        variables: {},
         annotations: [{
-          nodeId: node.id,
-          text: `'${char}' 不存在 ✗`,
-          position: 'right',
-          type: 'result',
+          nodeId: trie.root.id,
+          text: '重置',
+          position: 'top',
+          type: 'action',
         }],
-        action: 'returnResult',
-      });
-      
-      steps.push({
-        stepIndex: stepIndex++,
-        description: `返回 false，单词 "${word}" 不在Trie中`,
-        codeLineMap: {
-          java: [18, 19],
-          python: [14, 15],
-          golang: [24, 25],
-          javascript: [18, 19],
-        },
-        highlightedNodes: pathNodes,
-        highlightedEdges: [],
-        variables: { word, result: false },
-        trieSnapshot: trie.toVisualNode(),
-        annotations: [],
-        action: 'returnResult',
       });
-      
-      return steps;
     }
     
-    const childNode = node.children.get(char)!;
-    
-    steps.push({
-      stepIndex: stepIndex++,
-      description: `找到字符 '${char}'，移动到子节点`,
-      codeLineMap: {
-        java: [23],
-        python: [19],
-        golang: [29],
-        javascript: [23],
-      },
-      highlightedNodes: [...pathNodes, childNode.id],
-      highlightedEdges: [],
-      currentChar: char,
-      currentCharIndex: i,
-      variables: { word, char, index: i },
-      trieSnapshot: trie.toVisualNode(),
-      annotations: [{
-        nodeId: childNode.id,
-        text: `找到 '${char}'`,
-        position: 'top',
-        type: 'action',
-      }],
-      action: 'moveToChild',
-    });
-    
-    node = childNode;
-    pathNodes.push(node.id);
-  }
-  
-  // 检查是否为单词结尾
-  const isEnd = node.isEnd;
-  
-  steps.push({
-    stepIndex: stepIndex++,
-    description: isEnd 
-      ? `节点标记为单词结尾，搜索成功！返回 true`
-      : `节点未标记为单词结尾，搜索失败。返回 false`,
-    codeLineMap: {
-      java: [18, 19],
-      python: [14, 15],
-      golang: [24, 25],
-      javascript: [18, 19],
-    },
-    highlightedNodes: pathNodes,
-    highlightedEdges: [],
-    variables: { word, isEnd, result: isEnd },
-    trieSnapshot: trie.toVisualNode(),
-    annotations: [{
-      nodeId: node.id,
-      text: isEnd ? `是单词结尾 ✓` : `非单词结尾 ✗`,
-      position: 'top',
-      type: 'result',
-    }],
-    action: 'checkEnd',
+    recorder.flush(opIndex + 1, onProgress);
   });
   
-  return steps;
-}
-
-function generateStartsWithSteps(trie: Trie, prefix: string, startIndex: number): AlgorithmStep[] {
-  const steps: AlgorithmStep[] = [];
-  let stepIndex = startIndex;
-  let node: TrieNode = trie.root;
-  const pathNodes: string[] = [node.id];
-  
-  // 开始前缀搜索
-  steps.push({
-    stepIndex: stepIndex++,
-    description: `开始搜索前缀 "${prefix}"`,
-    codeLineMap: {
-      java: [26],
-      python: [21],
-      golang: [32],
-      javascript: [26],
-    },
-    highlightedNodes: [node.id],
-    highlightedEdges: [],
-    variables: { prefix, node: 'root' },
-    trieSnapshot: trie.toVisualNode(),
-    annotations: [{
-      nodeId: node.id,
-      text: `搜索前缀 "${prefix}"`,
-      position: 'top',
-      type: 'action',
-    }],
-  });
-  
-  for (let i = 0; i < prefix.length; i++) {
-    const char = prefix[i];
-    
-    if (!node.children.has(char)) {
-      // 未找到
-      steps.push({
-        stepIndex: stepIndex++,
-        description: `字符 '${char}' 不存在，前缀不存在`,
-        codeLineMap: {
-          java: [21, 22],
-          python: [17, 18],
-          golang: [27, 28],
-          javascript: [21, 22],
-        },
-        highlightedNodes: pathNodes,
-        highlightedEdges: [],
-        currentChar: char,
-        currentCharIndex: i,
-        variables: { prefix, char, index: i, found: false },
-        trieSnapshot: trie.toVisualNode(),
-        annotations: [{
-          nodeId: node.id,
-          text: `'${char}' 不存在 ✗`,
-          position: 'right',
-          type: 'result',
-        }],
-        action: 'returnResult',
-      });
-      
-      steps.push({
-        stepIndex: stepIndex++,
-        description: `返回 false，前缀 "${prefix}" 不存在`,
-        codeLineMap: {
-          java: [27],
-          python: [22],
-          golang: [33],
-          javascript: [27],
-        },
-        highlightedNodes: pathNodes,
-        highlightedEdges: [],
-        variables: { prefix, result: false },
-        trieSnapshot: trie.toVisualNode(),
-        annotations: [],
-        action: 'returnResult',
-      });
-      
-      return steps;
-    }
-    
-    const childNode = node.children.get(char)!;
-    
-    steps.push({
-      stepIndex: stepIndex++,
-      description: `找到字符 '${char}'，移动到子节点`,
-      codeLineMap: {
-        java: [23],
-        python: [19],
-        golang: [29],
-        javascript: [23],
-      },
-      highlightedNodes: [...pathNodes, childNode.id],
-      highlightedEdges: [],
-      currentChar: char,
-      currentCharIndex: i,
-      variables: { prefix, char, index: i },
-      trieSnapshot: trie.toVisualNode(),
-      annotations: [{
-        nodeId: childNode.id,
-        text: `找到 '${char}'`,
-        position: 'top',
-        type: 'action',
-      }],
-      action: 'moveToChild',
-    });
-    
-    node = childNode;
-    pathNodes.push(node.id);
+  // 没有任何操作时也要为初始步骤附上检查点
+  if (operations.length === 0) {
+    recorder.flush(0, onProgress);
   }
   
-  // 前缀存在
-  steps.push({
-    stepIndex: stepIndex++,
-    description: `前缀 "${prefix}" 存在，返回 true`,
-    codeLineMap: {
-      java: [27],
-      python: [22],
-      golang: [33],
-      javascript: [27],
-    },
-    highlightedNodes: pathNodes,
-    highlightedEdges: [],
-    variables: { prefix, result: true },
-    trieSnapshot: trie.toVisualNode(),
-    annotations: [{
-      nodeId: node.id,
-      text: `前缀存在 ✓`,
-      position: 'top',
-      type: 'result',
-    }],
-    action: 'returnResult',
-  });
-  
-  return steps;
+  return recorder.steps;
 }
@@ -56,6 +56,61 @@ const AlgorithmIdeaModal: React.FC<AlgorithmIdeaModalProps> = ({ isOpen, onClose
             </p>
           </section>
           
+          <section>
+            <h3>单词计数（Trie II）</h3>
+            <p>
+              在每个节点上额外维护两个计数：<strong>passCount</strong> 表示有多少个单词经过该节点，<strong>endCount</strong> 表示有多少个单词恰好在该节点结尾。
+              插入时沿途每个节点的 passCount 加一、末尾节点的 endCount 加一，重复插入同一个单词也会累加。
+              查找到前缀末尾节点后，countWordsEqualTo 返回其 endCount，countWordsStartingWith 返回其 passCount。
+            </p>
+          </section>
+          
+          <section>
+            <h3>自动补全</h3>
+            <p>
+              先用查找前缀的方法找到前缀末尾节点，再从该节点出发按字母顺序做深度优先遍历，遇到 isEnd 为真的节点就把当前路径收集为一个单词。
+              若指定 k，则按 endCount（出现次数）降序稳定排序后取前 k 个，次数相同的单词保持字典序。
+            </p>
+          </section>
+          
+          <section>
+            <h3>通配符搜索（211. 添加与搜索单词）</h3>
+            <p>
+              模式中的 '.' 可以匹配任意一个字母。遇到普通字符时和查找一样沿唯一的子节点前进；遇到 '.' 时依次尝试当前节点的每个子节点，
+              某个分支匹配成功就立即返回 true，失败则回溯到当前节点尝试下一个分支，所有分支都失败才返回 false。
+            </p>
+          </section>
+          
+          <section>
+            <h3>删除字符串</h3>
+            <p>先按查找的方式从根走到单词末尾，并记录沿途经过的节点：</p>
+            <ol>
+              <li><strong>单词不存在</strong>：路径中断或末尾节点的 isEnd 为假，无需删除。</li>
+              <li><strong>取消标记</strong>：将末尾节点的 endCount 减一，减到 0 时 isEnd 置为假。</li>
+              <li><strong>回溯剪枝</strong>：自底向上把路径上每个节点的 passCount 减一，减到 0 说明已没有单词经过该节点（既不是结尾也没有子节点），就把它从父节点的 children 中删除。</li>
+            </ol>
+          </section>
+          
+          <section>
+            <h3>压缩前缀树（Radix Trie）</h3>
+            <p>
+              标准 Trie 每个节点只保存一个字符，长单词会形成很长的单链。压缩前缀树把只有一个子节点且不是单词结尾的节点合并，边上保存整段子串。
+              插入时若新单词与某条边只有部分公共前缀，就在公共前缀处<strong>拆分</strong>出中间节点；删除后若出现只剩一个子节点的非结尾节点，就把它与子节点<strong>合并</strong>。
+            </p>
+          </section>
+          
+          <section>
+            <h3>AC 自动机（多模式匹配）</h3>
+            <p>
+              把所有模式串插入 Trie 后，按层 BFS 为每个节点构建<strong>失败指针</strong>：它指向当前路径的最长真后缀在 Trie 中对应的节点。
+              求子节点的失败指针时，从父节点的失败指针出发，沿失败指针不断回退，直到找到有相同字符转移的节点（找不到则指向根）。
+            </p>
+            <p>
+              匹配文本时逐个读入字符：有对应子节点就沿 Trie 边转移，否则沿失败指针回退；每到一个状态，再沿失败指针链检查所有后缀，遇到单词结尾就输出一次匹配。
+              整个过程只扫描文本一遍，时间复杂度为 O(文本长度 + 模式串总长 + 匹配数)。
+            </p>
+          </section>
+          
           <section>
             <h3>复杂度分析</h3>
             <ul>
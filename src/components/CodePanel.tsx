@@ -1,24 +1,29 @@
 import React, { useEffect, useState } from 'react';
-import type { ProgrammingLanguage, AlgorithmStep } from '../types';
+import type { ProgrammingLanguage, AlgorithmStep, TrieMode } from '../types';
 import { codeSnippets, getCodeSnippet } from '../algorithm/codeSnippets';
+import { radixCodeSnippets } from '../algorithm/radixCodeSnippets';
 import { getSetting, saveSetting } from '../utils/db';
+import { hasShareLink } from '../utils/shareLink';
 import './CodePanel.css';
 
 interface CodePanelProps {
   currentStep: AlgorithmStep | null;
   selectedLanguage: ProgrammingLanguage;
   onLanguageChange: (lang: ProgrammingLanguage) => void;
+  trieMode: TrieMode;
 }
 
 const CodePanel: React.FC<CodePanelProps> = ({
   currentStep,
   selectedLanguage,
   onLanguageChange,
+  trieMode,
 }) => {
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(() => !hasShareLink());
 
   useEffect(() => {
-    // 从IndexedDB加载用户选择的语言
+    // 从IndexedDB加载用户选择的语言，从分享链接打开时以链接为准
+    if (hasShareLink()) return;
     getSetting('selectedLanguage').then((saved) => {
       if (saved && typeof saved === 'string') {
         const lang = saved as ProgrammingLanguage;
@@ -35,7 +40,8 @@ const CodePanel: React.FC<CodePanelProps> = ({
     await saveSetting('selectedLanguage', lang);
   };
 
-  const snippet = getCodeSnippet(selectedLanguage);
+  // 压缩前缀树的步骤引用的是它自己的实现；AC 自动机的插入阶段沿用标准 Trie 的 insert
+  const snippet = trieMode === 'radix' ? radixCodeSnippets[selectedLanguage] : getCodeSnippet(selectedLanguage);
   const highlightedLines = currentStep?.codeLineMap[selectedLanguage] || [];
   const variables = currentStep?.variables || {};
 
@@ -94,6 +100,12 @@ const CodePanel: React.FC<CodePanelProps> = ({
         </div>
       </div>
       
+      {trieMode === 'ahoCorasick' && (
+        <div className="code-notice">
+          AC 自动机模式下插入阶段对应 insert 代码；构建失败指针与文本匹配阶段没有对应代码，不随步骤高亮
+        </div>
+      )}
+      
       <div className="code-content">
         {snippet.code.split('\n').map((line, index) => renderCodeLine(line, index + 1))}
       </div>
@@ -137,10 +149,10 @@ function highlightSyntax(code: string, language: ProgrammingLanguage): string {
   
   // 步骤3: 高亮关键字（不会包含引号，因为已被保护或转义）
   const keywords: Record<ProgrammingLanguage, string[]> = {
-    java: ['class', 'public', 'private', 'void', 'boolean', 'return', 'new', 'this', 'null', 'for', 'if', 'int', 'char', 'String'],
-    python: ['class', 'def', 'self', 'return', 'None', 'for', 'in', 'if', 'not', 'is', 'and', 'True', 'False', 'str', 'bool'],
-    golang: ['type', 'struct', 'func', 'return', 'nil', 'for', 'range', 'if', 'bool', 'string', 'int'],
-    javascript: ['class', 'constructor', 'const', 'let', 'return', 'new', 'this', 'null', 'for', 'of', 'if'],
+    java: ['class', 'public', 'private', 'void', 'boolean', 'return', 'new', 'this', 'null', 'for', 'if', 'break', 'int', 'char', 'String'],
+    python: ['class', 'def', 'self', 'return', 'None', 'for', 'in', 'if', 'break', 'del', 'not', 'is', 'and', 'or', 'else', 'lambda', 'True', 'False', 'str', 'bool', 'int'],
+    golang: ['type', 'struct', 'func', 'map', 'return', 'nil', 'for', 'range', 'if', 'break', 'bool', 'string', 'int'],
+    javascript: ['class', 'constructor', 'const', 'let', 'return', 'new', 'this', 'null', 'for', 'of', 'if', 'break', 'delete'],
   };
   
   for (const keyword of keywords[language]) {
@@ -1,91 +1,237 @@
-import React, { useState } from 'react';
-import type { Operation } from '../types';
-import { exampleDatasets, generateRandomOperations, parseUserInput, isValidWord } from '../data/examples';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ImportResult, Operation, ParseError, RandomGeneratorOptions, TrieMode } from '../types';
+import {
+  DEFAULT_RANDOM_OPTIONS,
+  exampleDatasets,
+  generateRandomOperations,
+  parseImportFile,
+  parseUserInput,
+  randomSeed,
+} from '../data/examples';
+import { getSetting, saveSetting } from '../utils/db';
+import { hasShareLink } from '../utils/shareLink';
+import FileImportDialog from './FileImportDialog';
+import OperationEditor from './OperationEditor';
+import OperationList from './OperationList';
+import RandomGeneratorDialog from './RandomGeneratorDialog';
+import ScenarioLibrary from './ScenarioLibrary';
 import './DataInput.css';
 
+const TRIE_MODES: { mode: TrieMode; label: string; title: string }[] = [
+  { mode: 'standard', label: '标准 Trie', title: '每个节点保存一个字符' },
+  { mode: 'radix', label: '压缩 Trie', title: '压缩前缀树（Radix / Patricia），边上保存子串' },
+  { mode: 'ahoCorasick', label: 'AC 自动机', title: '用 insert 的单词作为模式串，构建失败指针后在文本上做多模式匹配' },
+];
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
 interface DataInputProps {
   onOperationsChange: (operations: Operation[]) => void;
+  onOperationsEdit: (operations: Operation[]) => void; // 在列表中修改已提交的序列，尽量保持当前播放位置
   currentOperations: Operation[];
+  trieMode: TrieMode;
+  onTrieModeChange: (mode: TrieMode) => void;
+  matchText: string;
+  onMatchTextChange: (text: string) => void;
+  expectedOutput: string; // LeetCode 期望输出，可选，用于逐个对比模拟结果
+  onExpectedOutputChange: (text: string) => void;
 }
 
-const DataInput: React.FC<DataInputProps> = ({ onOperationsChange, currentOperations }) => {
+const DataInput: React.FC<DataInputProps> = ({
+  onOperationsChange,
+  onOperationsEdit,
+  currentOperations,
+  trieMode,
+  onTrieModeChange,
+  matchText,
+  onMatchTextChange,
+  expectedOutput,
+  onExpectedOutputChange,
+}) => {
   const [inputValue, setInputValue] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [randomOptions, setRandomOptions] = useState(DEFAULT_RANDOM_OPTIONS);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [generatedSeed, setGeneratedSeed] = useState<number | null>(null); // 当前序列由随机生成时记录种子，便于分享复现
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; result: ImportResult } | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  // 边输入边校验，整个脚本无误才允许提交
+  const parsed = useMemo(() => (inputValue.trim() ? parseUserInput(inputValue) : null), [inputValue]);
+  const parseErrors = parsed?.errors ?? [];
+  const errorLines = useMemo(
+    () => new Set((parsed?.errors ?? []).flatMap(error => (error.line !== undefined ? [error.line] : []))),
+    [parsed],
+  );
+
+  // 从IndexedDB加载上次选择的数据结构模式，从分享链接打开时以链接为准
+  useEffect(() => {
+    if (hasShareLink()) return;
+    getSetting('trieMode').then((saved) => {
+      if (TRIE_MODES.some(({ mode }) => mode === saved)) {
+        onTrieModeChange(saved as TrieMode);
+      }
+    });
+  }, [onTrieModeChange]);
+
+  const handleTrieModeChange = async (mode: TrieMode) => {
+    onTrieModeChange(mode);
+    await saveSetting('trieMode', mode);
+  };
 
   const handleExampleClick = (operations: Operation[]) => {
-    setError(null);
+    onExpectedOutputChange('');
     onOperationsChange([...operations]);
     setInputValue('');
+    setGeneratedSeed(null);
   };
 
-  const handleRandomGenerate = () => {
-    setError(null);
-    const operations = generateRandomOperations(6);
-    onOperationsChange(operations);
+  const handleRandomGenerate = (options: RandomGeneratorOptions) => {
+    onExpectedOutputChange('');
+    onOperationsChange(generateRandomOperations(options));
     setInputValue('');
+    setRandomOptions(options);
+    setGeneratedSeed(options.seed);
+    setShowGenerator(false);
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setInputValue(e.target.value);
-    setError(null);
-  };
-
-  const handleInputSubmit = () => {
-    if (!inputValue.trim()) {
-      setError('请输入操作序列');
-      return;
-    }
-
-    const operations = parseUserInput(inputValue);
-    if (!operations) {
-      setError('输入格式错误，请使用: insert word, search word, startsWith prefix');
-      return;
-    }
-
-    // 验证所有单词
-    for (const op of operations) {
-      if (!isValidWord(op.word)) {
-        setError(`单词 "${op.word}" 不合法，只能包含小写字母，长度1-2000`);
-        return;
+  // 读取文件后先弹出预览，确认后再导入；文件过大或读取失败时在同一个对话框里显示原因
+  const handleFile = async (file: File) => {
+    let result: ImportResult;
+    if (file.size > MAX_IMPORT_BYTES) {
+      result = importFailure(`文件过大（${(file.size / 1024 / 1024).toFixed(1)} MB），最多 5 MB`);
+    } else {
+      try {
+        result = parseImportFile(file.name, await file.text());
+      } catch (error) {
+        // 拖入后文件被删除、移动或被占用时读取会失败
+        result = importFailure(`读取文件失败：${error instanceof Error ? error.message : String(error)}`);
       }
     }
+    setPendingImport({ fileName: file.name, result });
+  };
 
-    setError(null);
+  const handleImport = (operations: Operation[]) => {
+    onExpectedOutputChange('');
     onOperationsChange(operations);
     setInputValue('');
+    setGeneratedSeed(null);
+    setPendingImport(null);
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleInputSubmit();
-    }
+  // 只响应从外部拖入的文件，操作列表内部的拖动排序不受影响
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
   };
 
-  const formatOperations = (ops: Operation[]): string => {
-    return ops.map(op => {
-      const icon = op.type === 'insert' ? '📥' : op.type === 'search' ? '🔍' : '🔤';
-      return `${icon} ${op.type}("${op.word}")`;
-    }).join(' → ');
+  // 提交后保留脚本，方便继续修改再次运行
+  const handleInputSubmit = () => {
+    if (!parsed || parsed.errors.length > 0) {
+      return;
+    }
+    onOperationsChange(parsed.operations);
+    setGeneratedSeed(null);
   };
 
   return (
-    <div className="data-input">
+    <div
+      className={`data-input ${isDraggingFile ? 'file-dragging' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+      }}
+      onDrop={handleDrop}
+    >
       <div className="input-row">
         <div className="input-section">
           <label>自定义输入:</label>
-          <input
-            type="text"
+          <OperationEditor
             value={inputValue}
-            onChange={handleInputChange}
-            onKeyDown={handleKeyDown}
-            placeholder='例: insert apple, search apple, startsWith app'
-            className="custom-input"
+            onChange={setInputValue}
+            onSubmit={handleInputSubmit}
+            errorLines={errorLines}
+            placeholder={'每行一个操作，例:\ninsert apple\nsearch apple\n或粘贴 LeetCode 的两行输入'}
           />
-          <button onClick={handleInputSubmit} className="submit-btn">
+          <button
+            onClick={handleInputSubmit}
+            className="submit-btn"
+            disabled={!parsed || parseErrors.length > 0}
+            title="Ctrl + Enter"
+          >
             确定
           </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="import-btn"
+            title="导入单词表（.txt）、op,word 的 CSV 或 LeetCode JSON，也可以直接把文件拖到这里"
+          >
+            📂 导入
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.csv,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = ''; // 允许再次选择同一个文件
+            }}
+          />
+        </div>
+        
+        <div className="input-section">
+          <label>期望输出:</label>
+          <input
+            type="text"
+            value={expectedOutput}
+            onChange={(e) => onExpectedOutputChange(e.target.value)}
+            placeholder="可选，例: [null,null,true,false,true]"
+            className="expected-input"
+          />
+        </div>
+        
+        <div className="mode-section">
+          <label>数据结构:</label>
+          <div className="mode-toggle">
+            {TRIE_MODES.map(({ mode, label, title }) => (
+              <button
+                key={mode}
+                onClick={() => handleTrieModeChange(mode)}
+                className={`mode-btn ${trieMode === mode ? 'active' : ''}`}
+                title={title}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
         
+        {trieMode === 'ahoCorasick' && (
+          <div className="match-text-section">
+            <label>匹配文本:</label>
+            <input
+              type="text"
+              value={matchText}
+              onChange={(e) => onMatchTextChange(e.target.value.toLowerCase().replace(/[^a-z]/g, ''))}
+              placeholder="例: ushers"
+              className="match-text-input"
+              maxLength={200}
+            />
+          </div>
+        )}
+        
         <div className="examples-section">
           <label>示例数据:</label>
           <div className="example-buttons">
@@ -98,23 +244,74 @@ const DataInput: React.FC<DataInputProps> = ({ onOperationsChange, currentOperat
                 {example.name}
               </button>
             ))}
-            <button onClick={handleRandomGenerate} className="random-btn">
+            <button onClick={() => setShowGenerator(true)} className="random-btn">
               🎲 随机生成
             </button>
+            <button onClick={() => setShowLibrary(true)} className="example-btn">
+              📚 场景库
+            </button>
+            {generatedSeed !== null && (
+              <span className="seed-badge" title="在随机生成中填入相同的种子和参数即可复现">
+                种子 {generatedSeed}
+              </span>
+            )}
           </div>
         </div>
       </div>
       
-      {error && <div className="error-message">{error}</div>}
+      {parseErrors.length > 0 && (
+        <ul className="error-message">
+          {parseErrors.map((error, index) => (
+            <li key={index}>{formatParseError(error)}</li>
+          ))}
+        </ul>
+      )}
       
       {currentOperations.length > 0 && (
         <div className="current-operations">
           <span className="ops-label">当前操作序列:</span>
-          <span className="ops-content">{formatOperations(currentOperations)}</span>
+          <OperationList operations={currentOperations} onChange={onOperationsEdit} />
         </div>
       )}
+      
+      {pendingImport && (
+        <FileImportDialog
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          onImport={handleImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+      
+      {showLibrary && (
+        <ScenarioLibrary
+          currentOperations={currentOperations}
+          onLoad={(operations) => {
+            handleExampleClick(operations);
+            setShowLibrary(false);
+          }}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+      
+      {showGenerator && (
+        <RandomGeneratorDialog
+          initialOptions={{ ...randomOptions, seed: randomSeed() }}
+          onGenerate={handleRandomGenerate}
+          onClose={() => setShowGenerator(false)}
+        />
+      )}
     </div>
   );
 };
 
+function formatParseError(error: ParseError): string {
+  return error.line !== undefined ? `第 ${error.line} 行：${error.message}` : error.message;
+}
+
+// 没能解析文件时的导入结果，预览对话框只显示这条错误
+function importFailure(message: string): ImportResult {
+  return { format: 'wordList', operations: [], errors: [{ message }] };
+}
+
 export default DataInput;
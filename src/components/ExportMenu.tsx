@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import './ExportMenu.css';
+
+export type ExportFormat = 'svg' | 'png';
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+interface ExportMenuProps {
+  disabled: boolean;
+  onExport: (format: ExportFormat, scale: number, includeCaption: boolean) => Promise<void>;
+}
+
+// 导出菜单：SVG 或指定倍率的 PNG，可选把步骤说明写在图片底部
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [includeCaption, setIncludeCaption] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setError(null);
+      await onExport(format, scale, includeCaption);
+      setIsOpen(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : '导出失败');
+    }
+  };
+
+  return (
+    <div className="export-menu">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`reset-view-btn ${isOpen ? 'active' : ''}`}
+        disabled={disabled}
+        title="把当前步骤的画布导出为图片"
+      >
+        ⤓ 导出
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="export-popover">
+          <label className="export-option">
+            <input
+              type="checkbox"
+              checked={includeCaption}
+              onChange={(e) => setIncludeCaption(e.target.checked)}
+            />
+            包含步骤说明
+          </label>
+          <label className="export-option">
+            PNG 倍率
+            <select value={scale} onChange={(e) => setScale(Number(e.target.value))}>
+              {PNG_SCALES.map(value => (
+                <option key={value} value={value}>{value}x</option>
+              ))}
+            </select>
+          </label>
+          <div className="export-actions">
+            <button className="export-btn" onClick={() => handleExport('svg')}>SVG</button>
+            <button className="export-btn" onClick={() => handleExport('png')}>PNG</button>
+          </div>
+          {error && <div className="export-error">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
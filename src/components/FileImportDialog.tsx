@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import type { ImportFormat, ImportLimitMode, ImportResult, Operation, OperationType } from '../types';
+import { limitOperations, randomSeed } from '../data/examples';
+import './FileImportDialog.css';
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  wordList: '单词表（每行一个单词）',
+  csv: 'CSV（op,word）',
+  leetcode: 'LeetCode JSON',
+};
+
+const LIMIT_MODES: { mode: ImportLimitMode; label: string }[] = [
+  { mode: 'all', label: '全部导入' },
+  { mode: 'first', label: '只取前' },
+  { mode: 'sample', label: '随机抽样' },
+];
+
+const DEFAULT_LIMIT = 100; // 操作过多时生成步骤和绘制都会变慢，默认只导入这么多
+const PREVIEW_ERRORS = 5;
+
+interface FileImportDialogProps {
+  fileName: string;
+  result: ImportResult;
+  onImport: (operations: Operation[]) => void;
+  onClose: () => void;
+}
+
+// 文件导入预览：显示识别出的格式和各类操作数量，列出被跳过的行，可限制导入数量
+const FileImportDialog: React.FC<FileImportDialogProps> = ({ fileName, result, onImport, onClose }) => {
+  const total = result.operations.length;
+  const [mode, setMode] = useState<ImportLimitMode>(total > DEFAULT_LIMIT ? 'first' : 'all');
+  const [limit, setLimit] = useState(Math.min(total, DEFAULT_LIMIT));
+  const [seed, setSeed] = useState(randomSeed);
+
+  const selected = useMemo(
+    () => limitOperations(result.operations, mode, limit, seed),
+    [result.operations, mode, limit, seed],
+  );
+
+  const typeCounts = useMemo(() => {
+    const counts = new Map<OperationType, number>();
+    for (const op of selected) {
+      counts.set(op.type, (counts.get(op.type) ?? 0) + 1);
+    }
+    return [...counts];
+  }, [selected]);
+
+  const uniqueWords = useMemo(
+    () => new Set(selected.filter(op => op.type === 'insert').map(op => op.word)).size,
+    [selected],
+  );
+
+  return (
+    <div className="import-overlay" onClick={onClose}>
+      <div className="import-dialog" onClick={e => e.stopPropagation()}>
+        <div className="import-header">
+          <h2>📂 导入 {fileName}</h2>
+          <button className="import-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="import-body">
+          <div className="import-summary">
+            <span>格式：{FORMAT_LABELS[result.format]}</span>
+            <span>有效操作：{total}</span>
+            {result.errors.length > 0 && <span className="import-skipped">跳过：{result.errors.length} 行</span>}
+          </div>
+
+          {result.errors.length > 0 && (
+            <ul className="import-errors">
+              {result.errors.slice(0, PREVIEW_ERRORS).map((error, index) => (
+                <li key={index}>{error.line !== undefined ? `第 ${error.line} 行：${error.message}` : error.message}</li>
+              ))}
+              {result.errors.length > PREVIEW_ERRORS && <li>…还有 {result.errors.length - PREVIEW_ERRORS} 处</li>}
+            </ul>
+          )}
+
+          {total > 0 && (
+            <>
+              <div className="import-limit">
+                {LIMIT_MODES.map(({ mode: value, label }) => (
+                  <label key={value}>
+                    <input type="radio" checked={mode === value} onChange={() => setMode(value)} />
+                    {label}
+                  </label>
+                ))}
+                {mode !== 'all' && (
+                  <input
+                    type="number"
+                    className="import-number"
+                    min={1}
+                    max={total}
+                    value={limit}
+                    onChange={(e) => setLimit(Math.min(total, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+                  />
+                )}
+                {mode === 'sample' && (
+                  <span className="import-seed" title="抽样使用的种子，相同的种子抽到同样的操作">
+                    种子
+                    <input
+                      type="number"
+                      className="import-number"
+                      min={0}
+                      value={seed}
+                      onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                    />
+                  </span>
+                )}
+              </div>
+
+              <div className="import-preview">
+                <span>将导入 {selected.length} 个操作：</span>
+                {typeCounts.map(([type, count]) => (
+                  <span key={type} className="import-count">{type} × {count}</span>
+                ))}
+                {uniqueWords > 0 && <span className="import-count">不同单词 {uniqueWords}</span>}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="import-footer">
+          <button className="import-cancel" onClick={onClose}>取消</button>
+          <button className="import-submit" onClick={() => onImport(selected)} disabled={selected.length === 0}>
+            导入
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FileImportDialog;
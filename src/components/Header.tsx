@@ -4,15 +4,28 @@ import './Header.css';
 
 interface HeaderProps {
   onShowAlgorithmIdea: () => void;
+  onCopyLink: () => Promise<void>;
+  canCopyLink: boolean;
 }
 
-const Header: React.FC<HeaderProps> = ({ onShowAlgorithmIdea }) => {
+const Header: React.FC<HeaderProps> = ({ onShowAlgorithmIdea, onCopyLink, canCopyLink }) => {
   const [stars, setStars] = useState<number>(0);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
 
   useEffect(() => {
     getGitHubStars().then(setStars);
   }, []);
 
+  const handleCopyLink = async () => {
+    try {
+      await onCopyLink();
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus('idle'), 2000);
+  };
+
   return (
     <header className="header">
       <div className="header-left">
@@ -44,6 +57,15 @@ const Header: React.FC<HeaderProps> = ({ onShowAlgorithmIdea }) => {
           💡 算法思路
         </button>
         
+        <button
+          className="algorithm-idea-btn"
+          onClick={handleCopyLink}
+          disabled={!canCopyLink}
+          title="复制包含当前操作序列、步骤、语言和视图选项的链接"
+        >
+          {copyStatus === 'copied' ? '✓ 已复制' : copyStatus === 'failed' ? '复制失败' : '🔗 复制链接'}
+        </button>
+        
         <a
           href={GITHUB_REPO_URL}
           target="_blank"
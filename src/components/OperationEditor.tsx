@@ -0,0 +1,76 @@
+import React, { useRef } from 'react';
+import './OperationEditor.css';
+
+interface OperationEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  errorLines: Set<number>; // 出错的行号（从 1 开始）
+  placeholder?: string;
+}
+
+// 多行操作脚本编辑器：左侧行号，出错的行整行标红
+// 标红通过放在透明 textarea 下面、逐行对齐的背景层实现，滚动时同步背景层与行号
+const OperationEditor: React.FC<OperationEditorProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  errorLines,
+  placeholder,
+}) => {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const lines = value.split('\n');
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    const { scrollTop, scrollLeft } = e.currentTarget;
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = scrollTop;
+    }
+    if (backdropRef.current) {
+      backdropRef.current.scrollTop = scrollTop;
+      backdropRef.current.scrollLeft = scrollLeft;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter 换行，Ctrl/Cmd + Enter 提交
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="operation-editor">
+      <div className="editor-gutter" ref={gutterRef}>
+        {lines.map((_, index) => (
+          <div key={index} className={`gutter-line ${errorLines.has(index + 1) ? 'error' : ''}`}>
+            {index + 1}
+          </div>
+        ))}
+      </div>
+      <div className="editor-body">
+        <div className="editor-backdrop" ref={backdropRef} aria-hidden="true">
+          {lines.map((line, index) => (
+            <div key={index} className={`backdrop-line ${errorLines.has(index + 1) ? 'error' : ''}`}>
+              {line || ' '}
+            </div>
+          ))}
+        </div>
+        <textarea
+          className="editor-textarea"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={handleScroll}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          spellCheck={false}
+          wrap="off"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default OperationEditor;
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import type { Operation, OperationType } from '../types';
+import { isValidWord, isValidPattern } from '../data/examples';
+import './OperationList.css';
+
+const OPERATION_ICONS: Record<OperationType, string> = {
+  insert: '📥',
+  search: '🔍',
+  startsWith: '🔤',
+  delete: '🗑️',
+  countWordsEqualTo: '🔢',
+  countWordsStartingWith: '📊',
+  autocomplete: '💬',
+  searchWildcard: '✳️',
+  reset: '🔄',
+};
+
+// 每个操作对象的稳定 key：编辑时新对象沿用旧对象的 key，排序、删除后行内草稿仍跟着原来的操作
+const operationKeys = new WeakMap<Operation, number>();
+let nextKey = 0;
+
+function keyOf(op: Operation): number {
+  let key = operationKeys.get(op);
+  if (key === undefined) {
+    key = nextKey++;
+    operationKeys.set(op, key);
+  }
+  return key;
+}
+
+// 可在列表中切换的操作类型，reset 没有参数，不参与切换
+const EDITABLE_TYPES = (Object.keys(OPERATION_ICONS) as OperationType[]).filter(type => type !== 'reset');
+
+interface OperationListProps {
+  operations: Operation[];
+  onChange: (operations: Operation[]) => void;
+}
+
+// 已提交操作序列的编辑列表：拖动排序、删除、复制、切换类型、行内修改单词、暂时停用
+const OperationList: React.FC<OperationListProps> = ({ operations, onChange }) => {
+  const [armedIndex, setArmedIndex] = useState<number | null>(null); // 按住拖动手柄的行才可拖动，避免与输入框选字冲突
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const replace = (index: number, op: Operation) => {
+    operationKeys.set(op, keyOf(operations[index]));
+    onChange(operations.map((current, i) => (i === index ? op : current)));
+  };
+
+  const remove = (index: number) => {
+    onChange(operations.filter((_, i) => i !== index));
+  };
+
+  const duplicate = (index: number) => {
+    const copy = { ...operations[index] }; // 新对象，才能拿到自己的行 key
+    onChange([...operations.slice(0, index + 1), copy, ...operations.slice(index + 1)]);
+  };
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...operations];
+    const [op] = next.splice(from, 1);
+    next.splice(to, 0, op);
+    onChange(next);
+  };
+
+  const endDrag = () => {
+    setArmedIndex(null);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <ol className="operation-list">
+      {operations.map((op, index) => (
+        <li
+          key={keyOf(op)}
+          className={[
+            'operation-row',
+            op.disabled ? 'disabled' : '',
+            dragIndex === index ? 'dragging' : '',
+            dropIndex === index && dragIndex !== index ? 'drop-target' : '',
+          ].join(' ')}
+          draggable={armedIndex === index}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDragIndex(index);
+          }}
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            setDropIndex(index);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragIndex !== null) move(dragIndex, index);
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+        >
+          <span
+            className="drag-handle"
+            title="拖动调整顺序"
+            onMouseDown={() => setArmedIndex(index)}
+            onMouseUp={() => setArmedIndex(null)}
+          >
+            ⋮⋮
+          </span>
+          <span className="op-index">{index + 1}</span>
+          <span className="op-icon">{OPERATION_ICONS[op.type]}</span>
+
+          {op.type === 'reset' ? (
+            <span className="op-reset">Trie()</span>
+          ) : (
+            <>
+              <select
+                className="op-type"
+                value={op.type}
+                onChange={(e) => replace(index, retype(op, e.target.value as OperationType))}
+              >
+                {EDITABLE_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <WordInput op={op} onCommit={(word) => replace(index, { ...op, word })} />
+              {op.type === 'autocomplete' && (
+                <input
+                  type="number"
+                  className="op-k"
+                  min={0}
+                  value={op.k ?? 0}
+                  title="k，0 表示返回全部"
+                  onChange={(e) => {
+                    const k = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                    replace(index, { ...op, k: k > 0 ? k : undefined });
+                  }}
+                />
+              )}
+            </>
+          )}
+
+          <span className="op-actions">
+            <button
+              className={`op-btn ${op.disabled ? '' : 'active'}`}
+              onClick={() => replace(index, { ...op, disabled: !op.disabled })}
+              title={op.disabled ? '启用' : '暂时停用（生成步骤时跳过）'}
+            >
+              {op.disabled ? '○' : '●'}
+            </button>
+            <button className="op-btn" onClick={() => duplicate(index)} title="复制">⧉</button>
+            <button className="op-btn danger" onClick={() => remove(index)} title="删除">✕</button>
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+// 行内编辑单词：输入时只允许合法字符，失焦或回车时提交，为空则恢复原值
+const WordInput: React.FC<{ op: Operation; onCommit: (word: string) => void }> = ({ op, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const allowed = op.type === 'searchWildcard' ? /[^a-z.]/g : /[^a-z]/g;
+  const isValid = op.type === 'searchWildcard' ? isValidPattern : isValidWord;
+
+  const commit = () => {
+    if (draft !== null && draft !== op.word && isValid(draft)) {
+      onCommit(draft);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      className="op-word"
+      value={draft ?? op.word}
+      size={Math.max(4, (draft ?? op.word).length)}
+      onChange={(e) => setDraft(e.target.value.toLowerCase().replace(allowed, ''))}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+};
+
+// 切换操作类型，单词中的 '.' 只有通配符搜索才合法
+function retype(op: Operation, type: OperationType): Operation {
+  const word = type === 'searchWildcard' ? op.word : op.word.replace(/\./g, '') || 'a';
+  const next: Operation = { type, word };
+  if (type === 'autocomplete' && op.k !== undefined) next.k = op.k;
+  if (op.disabled) next.disabled = true;
+  return next;
+}
+
+export default OperationList;
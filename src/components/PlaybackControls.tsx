@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
-import type { PlaybackState } from '../types';
+import type { PlaybackState, GenerationProgress } from '../types';
 import { getSetting, saveSetting } from '../utils/db';
+import { hasShareLink } from '../utils/shareLink';
 import './PlaybackControls.css';
 
 interface PlaybackControlsProps {
@@ -12,6 +13,7 @@ interface PlaybackControlsProps {
   onReset: () => void;
   onSeek: (step: number) => void;
   onSpeedChange: (speed: number) => void;
+  generationProgress?: GenerationProgress | null; // 步骤仍在后台生成时的进度
 }
 
 const SPEED_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 2];
@@ -25,13 +27,15 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
   onReset,
   onSeek,
   onSpeedChange,
+  generationProgress,
 }) => {
   const [showSpeedMenu, setShowSpeedMenu] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const progressRef = useRef<HTMLDivElement>(null);
 
-  // 加载保存的播放速度
+  // 加载保存的播放速度，从分享链接打开时以链接为准
   useEffect(() => {
+    if (hasShareLink()) return;
     getSetting('playbackSpeed').then((saved) => {
       if (saved && typeof saved === 'number') {
         onSpeedChange(saved);
@@ -187,6 +191,16 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
           )}
         </div>
         
+        {generationProgress && (
+          <div className="generation-progress" title="步骤正在后台生成，可以先开始播放">
+            <span className="generation-spinner" />
+            生成中 {Math.round((generationProgress.completedOperations / generationProgress.totalOperations) * 100)}%
+            <span className="generation-detail">
+              （{generationProgress.completedOperations}/{generationProgress.totalOperations} 个操作）
+            </span>
+          </div>
+        )}
+        
         <div className="step-counter">
           步骤 {playbackState.currentStep + 1} / {playbackState.totalSteps || 1}
         </div>
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import type { RandomGeneratorOptions } from '../types';
+import { normalizeRandomOptions, randomSeed } from '../data/examples';
+import './RandomGeneratorDialog.css';
+
+interface RandomGeneratorDialogProps {
+  initialOptions: RandomGeneratorOptions;
+  onGenerate: (options: RandomGeneratorOptions) => void;
+  onClose: () => void;
+}
+
+type NumericField = Exclude<keyof RandomGeneratorOptions, 'seed'>;
+
+const FIELDS: { key: NumericField; label: string; min: number; max: number; step?: number; title?: string }[] = [
+  { key: 'count', label: '操作数量', min: 1, max: 200 },
+  { key: 'alphabetSize', label: '字母表大小', min: 1, max: 26, title: '只使用 a 开始的前 n 个字母' },
+  { key: 'minLength', label: '最短单词', min: 1, max: 20 },
+  { key: 'maxLength', label: '最长单词', min: 1, max: 20 },
+  { key: 'insertRatio', label: '插入比例', min: 0, max: 1, step: 0.1, title: 'insert 在操作中的占比，其余为 search / startsWith 查询' },
+  { key: 'sharedPrefixRatio', label: '共享前缀比例', min: 0, max: 1, step: 0.1, title: '插入的单词沿用已插入单词前缀的概率' },
+  { key: 'hitRatio', label: '命中比例', min: 0, max: 1, step: 0.1, title: 'search / startsWith 返回 true 的概率' },
+];
+
+// 随机数据生成对话框：相同的种子和参数总能生成同样的操作序列，便于分享和复现
+const RandomGeneratorDialog: React.FC<RandomGeneratorDialogProps> = ({ initialOptions, onGenerate, onClose }) => {
+  const [options, setOptions] = useState(initialOptions);
+
+  const update = (key: keyof RandomGeneratorOptions, value: string) => {
+    setOptions(prev => ({ ...prev, [key]: Number(value) }));
+  };
+
+  const handleGenerate = () => {
+    onGenerate(normalizeRandomOptions(options));
+  };
+
+  return (
+    <div className="generator-overlay" onClick={onClose}>
+      <div className="generator-dialog" onClick={e => e.stopPropagation()}>
+        <div className="generator-header">
+          <h2>🎲 随机生成</h2>
+          <button className="generator-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="generator-body">
+          <label className="generator-field">
+            <span>种子</span>
+            <span className="seed-row">
+              <input
+                type="number"
+                min={0}
+                value={options.seed}
+                onChange={(e) => update('seed', e.target.value)}
+              />
+              <button
+                className="seed-btn"
+                onClick={() => setOptions(prev => ({ ...prev, seed: randomSeed() }))}
+                title="换一个种子"
+              >
+                🔀
+              </button>
+            </span>
+          </label>
+
+          {FIELDS.map(({ key, label, min, max, step, title }) => (
+            <label key={key} className="generator-field" title={title}>
+              <span>{label}</span>
+              <input
+                type="number"
+                min={min}
+                max={max}
+                step={step ?? 1}
+                value={options[key]}
+                onChange={(e) => update(key, e.target.value)}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="generator-footer">
+          <button className="generator-cancel" onClick={onClose}>取消</button>
+          <button className="generator-submit" onClick={handleGenerate}>生成</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RandomGeneratorDialog;
@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import type { Operation, ExpectedValue } from '../types';
+import { parseExpectedOutput } from '../data/examples';
+import './ResultVerification.css';
+
+interface ResultVerificationProps {
+  operations: Operation[];
+  results: Operation['result'][] | null; // 步骤生成完成前为 null
+  expectedOutput: string;
+  operationStarts: number[]; // 每个操作的第一个步骤下标，-1 表示尚未生成
+  onJumpToStep: (step: number) => void;
+}
+
+// 逐个操作对比模拟结果与 LeetCode 期望输出，不一致的可以跳到对应步骤查看执行过程
+const ResultVerification: React.FC<ResultVerificationProps> = ({
+  operations,
+  results,
+  expectedOutput,
+  operationStarts,
+  onJumpToStep,
+}) => {
+  const expected = useMemo(
+    () => parseExpectedOutput(expectedOutput, operations.length),
+    [expectedOutput, operations.length],
+  );
+
+  if (expected.errors.length > 0) {
+    return (
+      <div className="result-verification">
+        <div className="verification-error">{expected.errors.map(error => error.message).join('\n')}</div>
+      </div>
+    );
+  }
+
+  if (!results) {
+    return (
+      <div className="result-verification">
+        <div className="verification-summary">正在模拟，完成后对比期望输出…</div>
+      </div>
+    );
+  }
+
+  const rows = operations.map((op, index) => {
+    const actual = results[index];
+    return { op, index, actual, expected: expected.values[index], passed: matches(actual, expected.values[index]) };
+  });
+  const failed = rows.filter(row => !row.passed).length;
+
+  return (
+    <div className="result-verification">
+      <div className={`verification-summary ${failed > 0 ? 'failed' : 'passed'}`}>
+        {failed > 0
+          ? `✗ ${failed} / ${rows.length} 个操作的结果与期望输出不一致`
+          : `✓ 全部 ${rows.length} 个操作的结果与期望输出一致`}
+      </div>
+      <div className="verification-table-wrapper">
+        <table className="verification-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>操作</th>
+              <th>期望</th>
+              <th>实际</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.index} className={row.passed ? '' : 'mismatch'}>
+                <td>{row.index + 1}</td>
+                <td className="op-cell">{formatOperation(row.op)}</td>
+                <td>{formatValue(row.expected)}</td>
+                <td>{formatValue(row.actual ?? null)}</td>
+                <td>
+                  {row.passed ? (
+                    <span className="verdict pass">✓</span>
+                  ) : (
+                    <button
+                      className="jump-btn"
+                      disabled={operationStarts[row.index] < 0}
+                      onClick={() => onJumpToStep(operationStarts[row.index])}
+                      title="跳到该操作的第一步"
+                    >
+                      ✗ 跳到第 {operationStarts[row.index] + 1} 步
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// 没有返回值的操作（insert、delete 等）对应期望输出中的 null
+function matches(actual: Operation['result'], expected: ExpectedValue): boolean {
+  if (expected === null) {
+    return actual === undefined;
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual)
+      && actual.length === expected.length
+      && actual.every((word, i) => word === expected[i]);
+  }
+  return actual === expected;
+}
+
+function formatOperation(op: Operation): string {
+  if (op.type === 'reset') {
+    return 'Trie()';
+  }
+  return op.k !== undefined ? `${op.type}("${op.word}", ${op.k})` : `${op.type}("${op.word}")`;
+}
+
+function formatValue(value: ExpectedValue | Operation['result']): string {
+  return value === null || value === undefined ? 'null' : JSON.stringify(value);
+}
+
+export default ResultVerification;
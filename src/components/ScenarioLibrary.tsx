@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Operation, SavedScenario } from '../types';
+import { exampleDatasets } from '../data/examples';
+import { deleteScenario, listScenarios, saveScenario, updateScenario } from '../utils/db';
+import './ScenarioLibrary.css';
+
+interface ScenarioLibraryProps {
+  currentOperations: Operation[];
+  onLoad: (operations: Operation[]) => void;
+  onClose: () => void;
+}
+
+// 场景库：把当前操作序列保存到 IndexedDB，与内置示例一起搜索、加载，已保存的场景可以重命名、修改标签、删除
+const ScenarioLibrary: React.FC<ScenarioLibraryProps> = ({ currentOperations, onLoad, onClose }) => {
+  const [scenarios, setScenarios] = useState<SavedScenario[]>([]);
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [query, setQuery] = useState('');
+  // 正在行内编辑的场景：field 为 name 时改名称，为 tags 时改标签
+  const [editing, setEditing] = useState<{ id: string; field: 'name' | 'tags'; value: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listScenarios()
+      .then(setScenarios)
+      .catch(e => setError(describeError('读取场景', e)));
+  }, []);
+
+  const keyword = query.trim().toLowerCase();
+  const filteredExamples = useMemo(
+    () => exampleDatasets.filter(example => example.name.toLowerCase().includes(keyword)),
+    [keyword],
+  );
+  const filteredScenarios = useMemo(
+    () => scenarios.filter(scenario =>
+      scenario.name.toLowerCase().includes(keyword)
+      || scenario.tags.some(tag => tag.toLowerCase().includes(keyword))),
+    [scenarios, keyword],
+  );
+
+  const handleSave = async () => {
+    if (!name.trim() || currentOperations.length === 0) return;
+    try {
+      setError(null);
+      await saveScenario({
+        name: name.trim(),
+        tags: parseTags(tags),
+        operations: currentOperations,
+      });
+      setName('');
+      setTags('');
+      setScenarios(await listScenarios());
+    } catch (e) {
+      setError(describeError('保存场景', e));
+    }
+  };
+
+  // 名称不能为空，标签可以清空
+  const handleEdit = async () => {
+    if (!editing) return;
+    const changes = editing.field === 'name'
+      ? (editing.value.trim() ? { name: editing.value.trim() } : null)
+      : { tags: parseTags(editing.value) };
+    setEditing(null);
+    if (!changes) return;
+    try {
+      setError(null);
+      await updateScenario(editing.id, changes);
+      setScenarios(await listScenarios());
+    } catch (e) {
+      setError(describeError(editing.field === 'name' ? '重命名' : '修改标签', e));
+    }
+  };
+
+  const handleDelete = async (scenario: SavedScenario) => {
+    if (!window.confirm(`删除场景「${scenario.name}」？`)) return;
+    try {
+      setError(null);
+      await deleteScenario(scenario.id);
+      setScenarios(await listScenarios());
+    } catch (e) {
+      setError(describeError('删除场景', e));
+    }
+  };
+
+  return (
+    <div className="library-overlay" onClick={onClose}>
+      <div className="library-dialog" onClick={e => e.stopPropagation()}>
+        <div className="library-header">
+          <h2>📚 场景库</h2>
+          <button className="library-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="library-save">
+          <input
+            type="text"
+            className="library-input"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="场景名称"
+          />
+          <input
+            type="text"
+            className="library-input"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="标签，用逗号分隔"
+          />
+          <button
+            className="library-save-btn"
+            onClick={handleSave}
+            disabled={!name.trim() || currentOperations.length === 0}
+            title={currentOperations.length === 0 ? '当前没有操作序列' : `保存当前的 ${currentOperations.length} 个操作`}
+          >
+            保存当前序列
+          </button>
+        </div>
+
+        <input
+          type="search"
+          className="library-input library-search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="按名称或标签搜索"
+        />
+
+        {error && <div className="library-error">{error}</div>}
+
+        <div className="library-body">
+          <h3>已保存</h3>
+          {filteredScenarios.length === 0 && (
+            <div className="library-empty">{scenarios.length === 0 ? '还没有保存的场景' : '没有匹配的场景'}</div>
+          )}
+          {filteredScenarios.map(scenario => {
+            const rename = () => setEditing({ id: scenario.id, field: 'name', value: scenario.name });
+            const retag = () => setEditing({ id: scenario.id, field: 'tags', value: scenario.tags.join(', ') });
+            const field = editing?.id === scenario.id ? editing.field : null;
+            return (
+              <div key={scenario.id} className="library-row">
+                {editing && field === 'name' ? (
+                  <input
+                    type="text"
+                    className="library-input library-rename"
+                    value={editing.value}
+                    autoFocus
+                    onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                    onBlur={handleEdit}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                  />
+                ) : (
+                  <span className="library-name" onDoubleClick={rename}>
+                    {scenario.name}
+                  </span>
+                )}
+                {editing && field === 'tags' ? (
+                  <input
+                    type="text"
+                    className="library-input library-retag"
+                    value={editing.value}
+                    autoFocus
+                    placeholder="标签，用逗号分隔"
+                    onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                    onBlur={handleEdit}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                  />
+                ) : scenario.tags.map(tag => (
+                  <span key={tag} className="library-tag" onClick={() => setQuery(tag)}>{tag}</span>
+                ))}
+                <span className="library-count">{scenario.operations.length} 个操作</span>
+                <span className="library-actions">
+                  <button className="library-btn" onClick={() => onLoad(scenario.operations)}>加载</button>
+                  <button className="library-btn" onClick={rename}>重命名</button>
+                  <button className="library-btn" onClick={retag}>标签</button>
+                  <button className="library-btn danger" onClick={() => handleDelete(scenario)}>删除</button>
+                </span>
+              </div>
+            );
+          })}
+
+          {filteredExamples.length > 0 && <h3>内置示例</h3>}
+          {filteredExamples.map(example => (
+            <div key={example.name} className="library-row">
+              <span className="library-name">{example.name}</span>
+              <span className="library-count">{example.operations.length} 个操作</span>
+              <span className="library-actions">
+                <button className="library-btn" onClick={() => onLoad(example.operations)}>加载</button>
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 失败原因写进对话框，IndexedDB 不可用（如隐私模式、存储已满）时用户能看到原因
+function describeError(action: string, error: unknown): string {
+  return `${action}失败：${error instanceof Error ? error.message : String(error)}`;
+}
+
+// 标签去空白、去重
+function parseTags(text: string): string[] {
+  return [...new Set(text.split(/[,，]/).map(tag => tag.trim()).filter(Boolean))];
+}
+
+export default ScenarioLibrary;
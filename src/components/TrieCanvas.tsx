@@ -1,191 +1,365 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
 import * as d3 from 'd3';
-import type { VisualNode, AlgorithmStep, Annotation } from '../types';
+import type { VisualNode, AlgorithmStep, Annotation, TreeLayout, TrieMode } from '../types';
+import { getSetting, saveSetting } from '../utils/db';
+import { hasShareLink } from '../utils/shareLink';
+import { buildExportSvg, downloadPng, downloadSvg } from '../utils/exportCanvas';
+import {
+  annotationPlacement,
+  computeLayout,
+  counterPlacement,
+  edgeLabelPlacement,
+  linkPath,
+  slotRowPlacement,
+  sortedChildren,
+} from '../utils/treeLayout';
+import type { NodePosition } from '../utils/treeLayout';
+import ExportMenu from './ExportMenu';
+import type { ExportFormat } from './ExportMenu';
+import '@fontsource/noto-sans-sc/400.css';
+import '@fontsource/noto-sans-sc/500.css';
+import '@fontsource/noto-sans-sc/600.css';
+import '@fontsource/noto-sans-sc/700.css';
 import './TrieCanvas.css';
 
+const TREE_LAYOUTS: { layout: TreeLayout; label: string }[] = [
+  { layout: 'topDown', label: '↓ 自上而下' },
+  { layout: 'leftToRight', label: '→ 从左到右' },
+  { layout: 'radial', label: '◎ 径向' },
+  { layout: 'outline', label: '☰ 缩进大纲' },
+];
+
 interface TrieCanvasProps {
   currentStep: AlgorithmStep | null;
+  snapshot: VisualNode | null; // 当前步骤结束时的树，由增量还原
+  speed: number; // 播放速度，决定过渡动画的时长
+  layout: TreeLayout;
+  onLayoutChange: (layout: TreeLayout) => void;
+  mode: TrieMode; // 只有标准 Trie 的节点是 children[26] 数组，其余模式不能用内存布局
 }
 
 interface TreeNode {
   id: string;
   char: string;
   isEnd: boolean;
+  passCount: number;
+  endCount: number;
   x: number;
   y: number;
   children: TreeNode[];
   highlighted: boolean;
+  failed: boolean;
+  failId?: string;
+}
+
+// 数组表示中每个节点的 children[26] 槽位，index = ch - 'a'
+const SLOT_COUNT = 26;
+const SLOT_WIDTH = 10;
+const SLOT_HEIGHT = 14;
+const SLOT_ROW_WIDTH = SLOT_COUNT * SLOT_WIDTH;
+
+interface TreeLink {
+  source: TreeNode;
+  target: TreeNode;
 }
 
-const TrieCanvas: React.FC<TrieCanvasProps> = ({ currentStep }) => {
+interface ActiveSlot {
+  nodeId: string;
+  index: number;
+  childId: string | null;
+}
+
+const TrieCanvas: React.FC<TrieCanvasProps> = ({ currentStep, snapshot, speed, layout, onLayoutChange, mode }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const minimapRef = useRef<SVGSVGElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const minimapScaleRef = useRef<MinimapScale | null>(null); // 世界坐标到小地图坐标的映射
+  const [zoomTransform, setZoomTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  const [autoFit, setAutoFit] = useState(true); // 自动缩放到能看见整棵树，手动拖动或缩放后关闭
+  const [followNode, setFollowNode] = useState(false); // 当前节点离开视野时平移过去
+  const [showMinimap, setShowMinimap] = useState(true);
+  const [memoryLayout, setMemoryLayout] = useState(false);
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+  const pointerIdRef = useRef<string | null>(null); // 上一步遍历指针所在的节点
+  const positionsRef = useRef<{ layout: TreeLayout; positions: Map<string, NodePosition> } | null>(null); // 上一步的节点位置
+
+  // 加载保存的布局，从分享链接打开时以链接为准
+  useEffect(() => {
+    if (hasShareLink()) return;
+    getSetting('treeLayout').then((saved) => {
+      if (TREE_LAYOUTS.some(({ layout }) => layout === saved)) {
+        onLayoutChange(saved as TreeLayout);
+      }
+    });
+  }, [onLayoutChange]);
+
+  const handleLayoutChange = async (next: TreeLayout) => {
+    onLayoutChange(next);
+    await saveSetting('treeLayout', next);
+  };
 
-  // 渲染树
+  // 拖动平移、以鼠标位置为中心的滚轮缩放交给 d3.zoom；视图变化只改变外层变换，不触发节点的过渡动画
   useEffect(() => {
-    if (!svgRef.current || !containerRef.current) return;
+    if (!svgRef.current || !minimapRef.current) return;
+    const svgElement = svgRef.current;
+    const svg = d3.select(svgElement);
+    const minimap = d3.select(minimapRef.current);
+    const { viewport } = ensureLayers(svgElement);
+
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([MIN_SCALE, MAX_SCALE])
+      .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => {
+        viewport.attr('transform', event.transform.toString());
+        setZoomTransform(event.transform);
+        drawMinimapViewport(minimap, minimapScaleRef.current, event.transform, svgElement);
+        if (event.sourceEvent) {
+          setAutoFit(false);
+        }
+      });
+    svg.call(zoom).on('dblclick.zoom', null);
+    zoomRef.current = zoom;
+
+    // 小地图：拖动视口矩形平移主视图，点击其他位置把该处移到中央
+    minimap.append('g').attr('class', 'minimap-links');
+    minimap.append('g').attr('class', 'minimap-nodes');
+    minimap.append('rect')
+      .attr('class', 'minimap-viewport')
+      .call(d3.drag<SVGRectElement, unknown>()
+        .on('drag', (event: d3.D3DragEvent<SVGRectElement, unknown, unknown>) => {
+          const scale = minimapScaleRef.current;
+          if (!scale) return;
+          setAutoFit(false);
+          svg.call(zoom.translateBy, -event.dx / scale.k, -event.dy / scale.k);
+        }));
+    minimap.on('click', (event: MouseEvent) => {
+      const scale = minimapScaleRef.current;
+      if (!scale || (event.target as Element).classList.contains('minimap-viewport')) return;
+      const [mx, my] = d3.pointer(event);
+      setAutoFit(false);
+      svg.transition().duration(300).call(zoom.translateTo, (mx - scale.x) / scale.k, (my - scale.y) / scale.k);
+    });
+
+    return () => {
+      svg.on('.zoom', null);
+      minimap.selectAll('*').remove();
+      minimap.on('click', null);
+    };
+  }, []);
 
-    const svg = d3.select(svgRef.current);
-    const container = containerRef.current;
-    const width = container.clientWidth;
-    const height = container.clientHeight;
-
-    svg.selectAll('*').remove();
-
-    const g = svg.append('g')
-      .attr('transform', `translate(${width / 2 + transform.x}, ${60 + transform.y}) scale(${transform.scale})`);
-
-    if (!currentStep?.trieSnapshot) {
-      // 显示空状态
-      g.append('text')
-        .attr('x', 0)
-        .attr('y', height / 3)
-        .attr('text-anchor', 'middle')
-        .attr('fill', '#718096')
-        .attr('font-size', '14px')
-        .text('请选择示例数据或输入操作序列开始演示');
-      return;
-    }
+  // 渲染树：按节点 id 做数据绑定，新节点从父节点长出，删除的节点淡出，其余节点平滑移动到新位置；
+  // duration 为 0 时所有过渡在下一次 d3.timerFlush() 中直接到达终点
+  const render = useCallback((duration: number) => {
+    if (!svgRef.current || !containerRef.current) return;
 
-    // 计算树的布局 - 内联函数避免依赖问题
-    const calculateLayout = (node: VisualNode | null, depth: number = 0, index: number = 0, siblingCount: number = 1): TreeNode | null => {
-      if (!node) return null;
+    const { layer } = ensureLayers(svgRef.current);
+    const width = containerRef.current.clientWidth;
+    const height = containerRef.current.clientHeight;
+    const t = d3.transition().duration(duration).ease(d3.easeCubicInOut);
+    const slotRow = memoryLayout && mode === 'standard' ? slotRowPlacement(layout, SLOT_ROW_WIDTH) : null;
+
+    // 空状态，不随布局和拖动移动
+    d3.select(svgRef.current).selectAll('text.empty-state')
+      .data(currentStep && snapshot ? [] : ['请选择示例数据或输入操作序列开始演示'])
+      .join('text')
+      .attr('class', 'empty-state')
+      .attr('x', width / 2)
+      .attr('y', height / 3 + 60)
+      .attr('text-anchor', 'middle')
+      .attr('fill', '#718096')
+      .attr('font-size', '14px')
+      .text(d => d);
 
-      const horizontalSpacing = 70;
-      const verticalSpacing = 80;
-      
-      // 计算子节点
-      const children: TreeNode[] = [];
-      node.children.forEach((child, i) => {
-        const childNode = calculateLayout(child, depth + 1, i, node.children.length);
-        if (childNode) children.push(childNode);
-      });
+    const highlightedNodes = currentStep?.highlightedNodes ?? [];
+    const highlightedEdges = currentStep?.highlightedEdges ?? [];
+    const failedNodes = currentStep?.failedNodes ?? [];
 
-      // 计算当前节点位置
-      let x = 0;
-      if (children.length > 0) {
-        // 父节点居中于子节点
-        const leftMost = children[0].x;
-        const rightMost = children[children.length - 1].x;
-        x = (leftMost + rightMost) / 2;
-      } else {
-        x = (index - (siblingCount - 1) / 2) * horizontalSpacing;
-      }
+    // 同一布局下与上一步的位置对齐，减少整体跳动；切换布局时节点直接过渡到新位置
+    const layoutChanged = positionsRef.current !== null && positionsRef.current.layout !== layout;
+    const previous = positionsRef.current?.layout === layout ? positionsRef.current.positions : undefined;
+    const positions = currentStep && snapshot ? computeLayout(layout, snapshot, previous) : undefined;
+    positionsRef.current = positions ? { layout, positions } : null;
 
+    const buildTree = (node: VisualNode): TreeNode => {
+      const { x, y } = positions!.get(node.id)!;
       return {
         id: node.id,
         char: node.char,
         isEnd: node.isEnd,
+        passCount: node.passCount,
+        endCount: node.endCount,
         x,
-        y: depth * verticalSpacing,
-        children,
-        highlighted: currentStep.highlightedNodes.includes(node.id),
-      };
-    };
-
-    // 调整树的位置避免重叠 - 内联函数避免依赖问题
-    const adjustTreePositions = (root: TreeNode | null): TreeNode | null => {
-      if (!root) return null;
-
-      const nodePositions: Map<number, number[]> = new Map();
-      
-      const collectPositions = (node: TreeNode) => {
-        const level = Math.round(node.y / 80);
-        if (!nodePositions.has(level)) {
-          nodePositions.set(level, []);
-        }
-        nodePositions.get(level)!.push(node.x);
-        node.children.forEach(collectPositions);
+        y,
+        children: sortedChildren(node).map(buildTree),
+        highlighted: highlightedNodes.includes(node.id),
+        failed: failedNodes.includes(node.id),
+        failId: node.failId,
       };
-
-      const adjustNode = (node: TreeNode, offset: number): TreeNode => {
-        return {
-          ...node,
-          x: node.x + offset,
-          children: node.children.map(child => adjustNode(child, offset)),
-        };
-      };
-
-      collectPositions(root);
-
-      // 找到最小x值，确保树居中
-      let minX = Infinity;
-      let maxX = -Infinity;
-      nodePositions.forEach(positions => {
-        positions.forEach(x => {
-          minX = Math.min(minX, x);
-          maxX = Math.max(maxX, x);
-        });
-      });
-
-      const centerOffset = -(minX + maxX) / 2;
-      return adjustNode(root, centerOffset);
     };
 
-    let root = calculateLayout(currentStep.trieSnapshot, 0, 0, 1);
-    root = adjustTreePositions(root);
-
-    if (!root) return;
+    const root = positions && snapshot ? buildTree(snapshot) : null;
 
     // 收集所有节点和边
     const nodes: TreeNode[] = [];
-    const links: { source: TreeNode; target: TreeNode }[] = [];
+    const links: TreeLink[] = [];
+    const parentOf = new Map<string, TreeNode>();
 
     const traverse = (node: TreeNode) => {
       nodes.push(node);
       node.children.forEach(child => {
         links.push({ source: node, target: child });
+        parentOf.set(child.id, node);
         traverse(child);
       });
     };
-    traverse(root);
-
-    // 绘制边
-    const linkGroup = g.append('g').attr('class', 'links');
-    linkGroup.selectAll('line')
-      .data(links)
-      .enter()
-      .append('line')
-      .attr('x1', d => d.source.x)
-      .attr('y1', d => d.source.y)
-      .attr('x2', d => d.target.x)
-      .attr('y2', d => d.target.y)
-      .attr('stroke', d => {
-        const sourceHighlighted = currentStep.highlightedNodes.includes(d.source.id);
-        const targetHighlighted = currentStep.highlightedNodes.includes(d.target.id);
-        return sourceHighlighted && targetHighlighted ? '#63b3ed' : '#4a5568';
-      })
-      .attr('stroke-width', d => {
-        const sourceHighlighted = currentStep.highlightedNodes.includes(d.source.id);
-        const targetHighlighted = currentStep.highlightedNodes.includes(d.target.id);
-        return sourceHighlighted && targetHighlighted ? 3 : 2;
-      });
+    if (root) traverse(root);
+
+    // 边是否高亮：两端都在高亮路径上，或步骤显式指定了该边（AC 自动机的状态转移）
+    const isLinkHighlighted = (source: TreeNode, target: TreeNode) => (
+      highlightedEdges.includes(`${source.id}->${target.id}`)
+      || (highlightedNodes.includes(source.id) && highlightedNodes.includes(target.id))
+    );
+
+    // 绘制边：新边从父节点伸出
+    const linkKey = (d: TreeLink) => `${d.source.id}->${d.target.id}`;
+    layer('links').selectAll<SVGPathElement, TreeLink>('path')
+      .data(links, linkKey)
+      .join(
+        enter => enter.append('path')
+          .attr('fill', 'none')
+          .attr('d', d => linkPath(layout, d.source, d.source)),
+        update => update,
+        exit => exit.transition(t).attr('opacity', 0).remove(),
+      )
+      .transition(t)
+      .attr('d', d => linkPath(layout, d.source, d.target))
+      .attr('stroke', d => isLinkHighlighted(d.source, d.target) ? '#63b3ed' : '#4a5568')
+      .attr('stroke-width', d => isLinkHighlighted(d.source, d.target) ? 3 : 2)
+      .attr('opacity', 1);
+
+    // 绘制边上的字符标签（压缩 Trie 中为多字符子串，加描边保证压在连线上也清晰）
+    layer('links').selectAll<SVGTextElement, TreeLink>('text')
+      .data(links, linkKey)
+      .join(
+        enter => enter.append('text')
+          .attr('x', d => edgeLabelPlacement(layout, d.source, d.target).x)
+          .attr('y', d => edgeLabelPlacement(layout, d.source, d.target).y)
+          .attr('fill', '#a0aec0')
+          .attr('font-size', '11px')
+          .attr('stroke', '#0f0f1a')
+          .attr('stroke-width', 3)
+          .attr('paint-order', 'stroke')
+          .attr('opacity', 0),
+        update => update,
+        exit => exit.transition(t).attr('opacity', 0).remove(),
+      )
+      .text(d => d.target.char)
+      .attr('text-anchor', d => edgeLabelPlacement(layout, d.source, d.target).anchor)
+      .transition(t)
+      .attr('x', d => edgeLabelPlacement(layout, d.source, d.target).x)
+      .attr('y', d => edgeLabelPlacement(layout, d.source, d.target).y)
+      .attr('opacity', 1);
+
+    // AC 自动机的失败指针：虚线弧线 + 箭头；指向根的指针太多，只在被高亮时绘制
+    const nodeById = new Map(nodes.map(n => [n.id, n]));
+    const failLinks = nodes
+      .filter(n => n.failId !== undefined)
+      .map(n => ({
+        source: n,
+        target: nodeById.get(n.failId!)!,
+        highlighted: highlightedEdges.includes(`fail:${n.id}`),
+      }))
+      .filter(link => link.target && (link.target !== root || link.highlighted));
+
+    layer('fail-links').selectAll<SVGPathElement, (typeof failLinks)[number]>('path')
+      .data(failLinks, d => d.source.id)
+      .join(
+        enter => enter.append('path')
+          .attr('d', d => failLinkPath(d.source, d.target))
+          .attr('fill', 'none')
+          .attr('stroke-dasharray', '6 4')
+          .attr('opacity', 0),
+        update => update,
+        exit => exit.transition(t).attr('opacity', 0).remove(),
+      )
+      .attr('marker-end', d => `url(#${d.highlighted ? 'fail-arrow-active' : 'fail-arrow'})`)
+      .transition(t)
+      .attr('d', d => failLinkPath(d.source, d.target))
+      .attr('stroke', d => d.highlighted ? '#f6ad55' : '#805ad5')
+      .attr('stroke-width', d => d.highlighted ? 2.5 : 1.5)
+      .attr('opacity', d => d.highlighted ? 1 : 0.7);
+
+    // 绘制节点：新节点从父节点的位置放大长出
+    const nodeElements = layer('nodes').selectAll<SVGGElement, TreeNode>('g.node')
+      .data(nodes, d => d.id)
+      .join(
+        enter => {
+          const group = enter.append('g')
+            .attr('class', 'node')
+            .attr('transform', d => {
+              const from = parentOf.get(d.id) ?? d;
+              return nodeTransform(from.x, from.y, 0);
+            });
+
+          group.append('circle')
+            .attr('class', 'node-circle')
+            .attr('r', 22);
+
+          group.append('text')
+            .attr('class', 'node-label')
+            .attr('text-anchor', 'middle')
+            .attr('dy', '0.35em')
+            .attr('fill', '#e2e8f0')
+            .attr('font-size', '14px')
+            .attr('font-weight', '600');
+
+          // 计数标签：pass 为经过该节点的单词数，end 为以该节点结尾的单词数
+          group.append('text')
+            .attr('class', 'node-counter')
+            .attr('fill', '#a0aec0')
+            .attr('font-size', '10px');
+
+          // 结束标记
+          group.append('circle')
+            .attr('class', 'end-marker')
+            .attr('r', 6)
+            .attr('cx', 16)
+            .attr('cy', -16)
+            .attr('fill', '#48bb78')
+            .attr('opacity', 0);
+
+          return group;
+        },
+        update => update,
+        exit => exit.transition(t).attr('opacity', 0).remove(),
+      );
+
+    if (slotRow) {
+      nodeElements
+        .style('cursor', 'pointer')
+        .on('click', (_event, d) => {
+          setExpandedNodes(prev => {
+            const next = new Set(prev);
+            if (next.has(d.id)) {
+              next.delete(d.id);
+            } else {
+              next.add(d.id);
+            }
+            return next;
+          });
+        });
+    } else {
+      nodeElements.style('cursor', null).on('click', null);
+    }
 
-    // 绘制边上的字符标签
-    linkGroup.selectAll('text')
-      .data(links)
-      .enter()
-      .append('text')
-      .attr('x', d => (d.source.x + d.target.x) / 2 - 10)
-      .attr('y', d => (d.source.y + d.target.y) / 2)
-      .attr('fill', '#a0aec0')
-      .attr('font-size', '11px')
-      .text(d => d.target.char);
-
-    // 绘制节点
-    const nodeGroup = g.append('g').attr('class', 'nodes');
-    const nodeElements = nodeGroup.selectAll('g')
-      .data(nodes)
-      .enter()
-      .append('g')
-      .attr('transform', d => `translate(${d.x}, ${d.y})`);
+    nodeElements.transition(t)
+      .attr('transform', d => nodeTransform(d.x, d.y, 1))
+      .attr('opacity', 1);
 
     // 节点圆圈
-    nodeElements.append('circle')
-      .attr('r', 22)
+    nodeElements.select('circle.node-circle')
+      .attr('stroke-dasharray', d => d.failed && !d.highlighted ? '4 3' : null)
+      .transition(t)
       .attr('fill', d => {
         if (d.highlighted) {
           if (d.isEnd) return '#38a169';
@@ -195,62 +369,172 @@ const TrieCanvas: React.FC<TrieCanvasProps> = ({ currentStep }) => {
       })
       .attr('stroke', d => {
         if (d.highlighted) return '#63b3ed';
+        if (d.failed) return '#fc8181';
         return d.isEnd ? '#48bb78' : '#4a5568';
       })
       .attr('stroke-width', d => d.highlighted ? 3 : 2);
 
     // 节点文字
-    nodeElements.append('text')
-      .attr('text-anchor', 'middle')
-      .attr('dy', '0.35em')
-      .attr('fill', '#e2e8f0')
-      .attr('font-size', '14px')
-      .attr('font-weight', '600')
-      .text(d => d.char === 'root' ? '○' : d.char);
+    nodeElements.select('text.node-label')
+      .text(d => {
+        if (d.char === 'root') return '○';
+        return d.char.length > 3 ? `${d.char.slice(0, 2)}…` : d.char;
+      });
+
+    const counter = counterPlacement(layout);
+    nodeElements.select('text.node-counter')
+      .text(d => (d.char === 'root' ? '' : `p${d.passCount} · e${d.endCount}`))
+      .attr('text-anchor', counter.anchor)
+      .transition(t)
+      .attr('x', counter.x)
+      .attr('y', counter.y);
+
+    nodeElements.select('circle.end-marker')
+      .transition(t)
+      .attr('opacity', d => (d.isEnd ? 1 : 0));
+
+    // 遍历指针：移动到相邻节点时沿边滑过去，跳到不相邻的节点（例如新操作回到根）时直接出现
+    const pointerNode = nodeById.get(highlightedNodes[highlightedNodes.length - 1]);
+    const previousId = pointerIdRef.current;
+    const isAdjacent = pointerNode !== undefined && previousId !== null && (
+      pointerNode.id === previousId
+      || parentOf.get(pointerNode.id)?.id === previousId
+      || parentOf.get(previousId)?.id === pointerNode.id
+    );
+    pointerIdRef.current = pointerNode?.id ?? null;
+
+    const pointer = layer('pointer').selectAll<SVGCircleElement, TreeNode>('circle')
+      .data(pointerNode ? [pointerNode] : [])
+      .join(
+        enter => enter.append('circle')
+          .attr('r', 28)
+          .attr('fill', 'none')
+          .attr('stroke', '#f6ad55')
+          .attr('stroke-width', 2)
+          .attr('stroke-dasharray', '5 3'),
+        update => update,
+        exit => exit.transition(t).attr('opacity', 0).remove(),
+      );
+    if (!isAdjacent) {
+      pointer
+        .interrupt()
+        .attr('cx', d => d.x)
+        .attr('cy', d => d.y)
+        .attr('opacity', 0);
+    }
+    pointer.transition(t)
+      .attr('cx', d => d.x)
+      .attr('cy', d => d.y)
+      .attr('opacity', 1);
+
+    // 内存布局、标注每步重画，在节点移动到位后淡入
+    const overlayTransition = (group: d3.Selection<SVGGElement, unknown, null, undefined>) => {
+      group.attr('opacity', 0)
+        .transition()
+        .delay(duration)
+        .duration(duration / 2)
+        .attr('opacity', 1);
+    };
+    layer('memory-slots').selectAll('*').remove();
+    layer('annotations').selectAll('*').remove();
+
+    // 内存布局：展开节点的 children[26] 数组，当前访问的槽位自动展开并高亮
+    if (slotRow && currentStep) {
+      const activeSlot = resolveActiveSlot(currentStep, nodes, parentOf);
+      const expanded = nodes.filter(n => expandedNodes.has(n.id) || n.id === activeSlot?.nodeId);
+      const slotGroup = layer('memory-slots').append('g');
+      overlayTransition(slotGroup);
+
+      expanded.forEach(node => {
+        const occupied = new Map<number, TreeNode>();
+        node.children.forEach(child => {
+          occupied.set(child.char.charCodeAt(0) - 97, child);
+        });
+        const activeIndex = activeSlot?.nodeId === node.id ? activeSlot.index : -1;
+
+        const row = slotGroup.append('g')
+          .attr('transform', `translate(${node.x + slotRow.x}, ${node.y + slotRow.y})`);
+
+        row.append('rect')
+          .attr('x', -4)
+          .attr('y', -4)
+          .attr('width', SLOT_ROW_WIDTH + 8)
+          .attr('height', SLOT_HEIGHT + 8)
+          .attr('rx', 4)
+          .attr('fill', 'rgba(15, 15, 26, 0.95)')
+          .attr('stroke', '#4a5568');
+
+        for (let i = 0; i < SLOT_COUNT; i++) {
+          const isActive = i === activeIndex;
+          const isOccupied = occupied.has(i);
+
+          row.append('rect')
+            .attr('x', i * SLOT_WIDTH)
+            .attr('width', SLOT_WIDTH)
+            .attr('height', SLOT_HEIGHT)
+            .attr('fill', isActive ? '#f6ad55' : isOccupied ? '#3182ce' : '#1a202c')
+            .attr('stroke', isActive ? '#fbd38d' : '#2d3748');
+
+          row.append('text')
+            .attr('x', i * SLOT_WIDTH + SLOT_WIDTH / 2)
+            .attr('y', SLOT_HEIGHT / 2)
+            .attr('dy', '0.35em')
+            .attr('text-anchor', 'middle')
+            .attr('fill', isActive || isOccupied ? '#1a202c' : '#4a5568')
+            .attr('font-size', '7px')
+            .attr('font-weight', isActive || isOccupied ? '700' : '400')
+            .text(String.fromCharCode(97 + i));
+        }
 
-    // 结束标记
-    nodeElements.filter(d => d.isEnd)
-      .append('circle')
-      .attr('r', 6)
-      .attr('cx', 16)
-      .attr('cy', -16)
-      .attr('fill', '#48bb78');
+        if (activeIndex >= 0) {
+          const char = String.fromCharCode(97 + activeIndex);
+          row.append('text')
+            .attr('x', activeIndex * SLOT_WIDTH + SLOT_WIDTH / 2)
+            .attr('y', -8)
+            .attr('text-anchor', 'middle')
+            .attr('fill', '#f6ad55')
+            .attr('font-size', '10px')
+            .attr('font-weight', '600')
+            .attr('stroke', '#0f0f1a')
+            .attr('stroke-width', 3)
+            .attr('paint-order', 'stroke')
+            .text(`children['${char}' - 'a' = ${activeIndex}] ${activeSlot?.childId ? '→ 指针' : '= null'}`);
+        }
+      });
+
+      // 当前槽位指向的子节点
+      const pointerTarget = activeSlot?.childId ? nodes.find(n => n.id === activeSlot.childId) : undefined;
+      const pointerSource = activeSlot ? nodes.find(n => n.id === activeSlot.nodeId) : undefined;
+      if (activeSlot && pointerSource && pointerTarget) {
+        const sx = pointerSource.x + slotRow.x + activeSlot.index * SLOT_WIDTH + SLOT_WIDTH / 2;
+        const sy = pointerSource.y + slotRow.y + SLOT_HEIGHT;
+        slotGroup.append('line')
+          .attr('x1', sx)
+          .attr('y1', sy)
+          .attr('x2', pointerTarget.x)
+          .attr('y2', pointerTarget.y - 22)
+          .attr('stroke', '#f6ad55')
+          .attr('stroke-width', 2)
+          .attr('stroke-dasharray', '4 3');
+      }
+    }
 
     // 绘制标注
-    if (currentStep.annotations && currentStep.annotations.length > 0) {
-      const annotationGroup = g.append('g').attr('class', 'annotations');
+    if (currentStep?.annotations && currentStep.annotations.length > 0) {
+      const annotationGroup = layer('annotations').append('g');
+      overlayTransition(annotationGroup);
       
       currentStep.annotations.forEach(annotation => {
         const targetNode = nodes.find(n => n.id === annotation.nodeId);
         if (!targetNode) return;
 
-        let offsetX = 0;
-        let offsetY = 0;
-        let textAnchor = 'middle';
-
-        switch (annotation.position) {
-          case 'top':
-            offsetY = -35;
-            break;
-          case 'bottom':
-            offsetY = 40;
-            break;
-          case 'left':
-            offsetX = -40;
-            textAnchor = 'end';
-            break;
-          case 'right':
-            offsetX = 40;
-            textAnchor = 'start';
-            break;
-        }
-
+        const placement = annotationPlacement(layout, annotation.position);
         const annotationEl = annotationGroup.append('g')
-          .attr('transform', `translate(${targetNode.x + offsetX}, ${targetNode.y + offsetY})`);
+          .attr('transform', `translate(${targetNode.x + placement.x}, ${targetNode.y + placement.y})`);
 
         // 背景
         const textEl = annotationEl.append('text')
-          .attr('text-anchor', textAnchor)
+          .attr('text-anchor', placement.anchor)
           .attr('fill', getAnnotationColor(annotation.type))
           .attr('font-size', '11px')
           .attr('font-weight', '500')
@@ -269,75 +553,352 @@ const TrieCanvas: React.FC<TrieCanvasProps> = ({ currentStep }) => {
       });
     }
 
-  }, [currentStep, transform]);
-
-  // 鼠标拖拽
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (e.button === 0) {
-      setIsDragging(true);
-      setDragStart({ x: e.clientX - transform.x, y: e.clientY - transform.y });
+    // 小地图：整棵树的缩略图
+    const minimap = minimapRef.current ? d3.select(minimapRef.current) : null;
+    if (minimap) {
+      const scale = positions ? minimapScale(positions) : null;
+      minimapScaleRef.current = scale;
+      const project = (node: TreeNode) => (scale ? [node.x * scale.k + scale.x, node.y * scale.k + scale.y] : [0, 0]);
+
+      minimap.select('g.minimap-links').selectAll('line')
+        .data(links)
+        .join('line')
+        .attr('x1', d => project(d.source)[0])
+        .attr('y1', d => project(d.source)[1])
+        .attr('x2', d => project(d.target)[0])
+        .attr('y2', d => project(d.target)[1]);
+
+      minimap.select('g.minimap-nodes').selectAll('circle')
+        .data(nodes)
+        .join('circle')
+        .attr('r', 2)
+        .attr('cx', d => project(d)[0])
+        .attr('cy', d => project(d)[1])
+        .attr('class', d => (d.id === pointerNode?.id ? 'current' : d.highlighted ? 'highlighted' : null));
+
+      drawMinimapViewport(minimap, scale, d3.zoomTransform(svgRef.current), svgRef.current);
     }
-  };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (isDragging) {
-      setTransform(prev => ({
-        ...prev,
-        x: e.clientX - dragStart.x,
-        y: e.clientY - dragStart.y,
-      }));
+    // 视图跟随：自动适应时缩放到整棵树；跟随模式下当前节点离开视野就把它移到中央；
+    // 都没开启时切换布局回到该布局的默认位置
+    const zoom = zoomRef.current;
+    if (zoom && positions) {
+      const view = d3.select(svgRef.current).transition(t);
+      const current = d3.zoomTransform(svgRef.current);
+      if (autoFit) {
+        view.call(zoom.transform, fitTransform(positions, width, height));
+      } else if (followNode && pointerNode && !isInView(current.apply([pointerNode.x, pointerNode.y]), width, height)) {
+        view.call(zoom.transform, centerOn(pointerNode, current.k, width, height));
+      } else if (layoutChanged) {
+        const origin = layoutOrigin(layout, width, height);
+        view.call(zoom.transform, d3.zoomIdentity.translate(origin.x, origin.y));
+      }
     }
-  };
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
-  };
+  }, [currentStep, snapshot, memoryLayout, mode, expandedNodes, layout, autoFit, followNode]);
+
+  useEffect(() => {
+    render(transitionDuration(speed));
+  }, [render, speed]);
 
-  // 滚轮缩放
-  const handleWheel = (e: React.WheelEvent) => {
-    e.preventDefault();
-    const delta = e.deltaY > 0 ? 0.9 : 1.1;
-    setTransform(prev => ({
-      ...prev,
-      scale: Math.max(0.3, Math.min(3, prev.scale * delta)),
-    }));
+  // 导出当前步骤的画布
+  const handleExport = async (format: ExportFormat, scale: number, includeCaption: boolean) => {
+    if (!svgRef.current || !currentStep) return;
+    // 打断正在进行的过渡（移动中的节点、延迟淡入的标注），立即画到终点后再复制，避免导出半透明的元素
+    const svg = d3.select(svgRef.current);
+    svg.interrupt();
+    svg.selectAll('*').interrupt();
+    render(0);
+    d3.timerFlush();
+    const exported = await buildExportSvg(svgRef.current, {
+      caption: includeCaption ? `第 ${currentStep.stepIndex + 1} 步：${currentStep.description}` : undefined,
+    });
+    const fileName = `trie-step-${currentStep.stepIndex + 1}`;
+    if (format === 'svg') {
+      downloadSvg(exported, `${fileName}.svg`);
+    } else {
+      await downloadPng(exported, scale, `${fileName}@${scale}x.png`);
+    }
   };
 
-  // 重置视图
+  // 重置视图：缩放 100%，根节点回到布局的默认位置
   const handleReset = () => {
-    setTransform({ x: 0, y: 0, scale: 1 });
+    if (!svgRef.current || !containerRef.current || !zoomRef.current) return;
+    setAutoFit(false);
+    const origin = layoutOrigin(layout, containerRef.current.clientWidth, containerRef.current.clientHeight);
+    d3.select(svgRef.current).transition().duration(300)
+      .call(zoomRef.current.transform, d3.zoomIdentity.translate(origin.x, origin.y));
   };
 
+  // 内存布局不可用的原因，可用时为 null
+  const memoryLayoutBlocker = mode !== 'standard'
+    ? '压缩 Trie 和 AC 自动机的节点不是 children[26] 数组'
+    : slotRowPlacement(layout, SLOT_ROW_WIDTH) === null
+      ? '只有自上而下布局放得下 children[26] 槽位行'
+      : null;
+
   return (
     <div className="trie-canvas" ref={containerRef}>
       <div className="canvas-controls">
         <button onClick={handleReset} className="reset-view-btn" title="重置视图">
           ⟲ 重置
         </button>
-        <span className="zoom-level">{Math.round(transform.scale * 100)}%</span>
+        <button
+          onClick={() => setAutoFit(true)}
+          className={`reset-view-btn ${autoFit ? 'active' : ''}`}
+          title="缩放到能看见整棵树，树变化时自动调整，手动拖动或缩放后停止"
+        >
+          ⤢ 适应
+        </button>
+        <button
+          onClick={() => setFollowNode(prev => !prev)}
+          className={`reset-view-btn ${followNode ? 'active' : ''}`}
+          title="播放时当前节点离开视野就自动平移过去"
+        >
+          ◎ 跟随
+        </button>
+        <button
+          onClick={() => setShowMinimap(prev => !prev)}
+          className={`reset-view-btn ${showMinimap ? 'active' : ''}`}
+          title="显示小地图，拖动其中的方框平移视图"
+        >
+          ▣ 小地图
+        </button>
+        <button
+          onClick={() => setMemoryLayout(prev => !prev)}
+          className={`reset-view-btn ${memoryLayout && !memoryLayoutBlocker ? 'active' : ''}`}
+          disabled={memoryLayoutBlocker !== null}
+          title={memoryLayoutBlocker ?? '以 children[26] 数组展示节点，点击节点展开/收起槽位'}
+        >
+          ▦ 内存布局
+        </button>
+        <select
+          className="layout-select"
+          value={layout}
+          onChange={(e) => handleLayoutChange(e.target.value as TreeLayout)}
+          title="切换树的布局"
+        >
+          {TREE_LAYOUTS.map(({ layout: value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <ExportMenu disabled={!currentStep} onExport={handleExport} />
+        <span className="zoom-level">{Math.round(zoomTransform.k * 100)}%</span>
       </div>
       
+      <svg ref={svgRef} className="main-canvas" width="100%" height="100%" />
+      
       <svg
-        ref={svgRef}
-        width="100%"
-        height="100%"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        onWheel={handleWheel}
-        style={{ cursor: isDragging ? 'grabbing' : 'grab' }}
+        ref={minimapRef}
+        className={`minimap ${showMinimap && currentStep ? '' : 'hidden'}`}
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
       />
       
       {currentStep && (
         <div className="step-info">
           <div className="step-description">{currentStep.description}</div>
+          {currentStep.textCursor && (
+            <div className="text-cursor">
+              <span className="results-label">文本:</span>
+              {[...currentStep.textCursor.text].map((char, index) => {
+                const cursor = currentStep.textCursor!.index;
+                const state = index === cursor ? 'current' : index < cursor ? 'consumed' : '';
+                return <span key={index} className={`text-char ${state}`}>{char}</span>;
+              })}
+            </div>
+          )}
+          {currentStep.collectedWords && (
+            <div className="step-results">
+              <span className="results-label">结果 ({currentStep.collectedWords.length}):</span>
+              {currentStep.collectedWords.length > 0
+                ? currentStep.collectedWords.map((word, index) => (
+                    <span key={`${word}-${index}`} className="result-word">{word}</span>
+                  ))
+                : <span className="results-empty">暂无</span>}
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 };
 
+// 过渡时长跟随播放速度，保证自动播放时上一步的动画在下一步开始前结束
+function transitionDuration(speed: number): number {
+  return Math.min(400, 700 / speed);
+}
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 4;
+const VIEW_TOP = 44; // 顶部控制按钮占用的高度
+const VIEW_BOTTOM = 90; // 底部步骤说明占用的高度
+const FIT_PADDING = 50;
+const FOLLOW_MARGIN = 60;
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 110;
+
+// 小地图坐标 = 世界坐标 * k + (x, y)
+interface MinimapScale {
+  k: number;
+  x: number;
+  y: number;
+}
+
+// 可视区域：去掉顶部按钮和底部步骤说明
+function viewArea(width: number, height: number) {
+  const bottom = Math.max(VIEW_TOP + 100, height - VIEW_BOTTOM);
+  return { left: 0, right: width, top: VIEW_TOP, bottom, centerX: width / 2, centerY: (VIEW_TOP + bottom) / 2 };
+}
+
+function bounds(positions: Map<string, NodePosition>) {
+  const xs = [...positions.values()].map(position => position.x);
+  const ys = [...positions.values()].map(position => position.y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+// 缩放到能看见所有节点，最大不超过 100%
+function fitTransform(positions: Map<string, NodePosition>, width: number, height: number): d3.ZoomTransform {
+  const { minX, maxX, minY, maxY } = bounds(positions);
+  const area = viewArea(width, height);
+  const k = Math.max(MIN_SCALE, Math.min(
+    1,
+    (area.right - area.left) / (maxX - minX + FIT_PADDING * 2),
+    (area.bottom - area.top) / (maxY - minY + FIT_PADDING * 2),
+  ));
+  return d3.zoomIdentity
+    .translate(area.centerX - k * (minX + maxX) / 2, area.centerY - k * (minY + maxY) / 2)
+    .scale(k);
+}
+
+function isInView([x, y]: [number, number], width: number, height: number): boolean {
+  const area = viewArea(width, height);
+  return x >= area.left + FOLLOW_MARGIN && x <= area.right - FOLLOW_MARGIN
+    && y >= area.top + FOLLOW_MARGIN && y <= area.bottom - FOLLOW_MARGIN;
+}
+
+function centerOn(node: NodePosition, k: number, width: number, height: number): d3.ZoomTransform {
+  const area = viewArea(width, height);
+  return d3.zoomIdentity.translate(area.centerX - k * node.x, area.centerY - k * node.y).scale(k);
+}
+
+function minimapScale(positions: Map<string, NodePosition>): MinimapScale {
+  const { minX, maxX, minY, maxY } = bounds(positions);
+  const padding = 30;
+  const k = Math.min(
+    MINIMAP_WIDTH / (maxX - minX + padding * 2),
+    MINIMAP_HEIGHT / (maxY - minY + padding * 2),
+  );
+  return {
+    k,
+    x: MINIMAP_WIDTH / 2 - k * (minX + maxX) / 2,
+    y: MINIMAP_HEIGHT / 2 - k * (minY + maxY) / 2,
+  };
+}
+
+// 小地图中的方框：主画布当前能看到的区域
+function drawMinimapViewport(
+  minimap: d3.Selection<SVGSVGElement, unknown, null, undefined>,
+  scale: MinimapScale | null,
+  transform: d3.ZoomTransform,
+  canvas: SVGSVGElement,
+) {
+  const rect = minimap.select('rect.minimap-viewport');
+  if (!scale) {
+    rect.attr('width', 0).attr('height', 0);
+    return;
+  }
+  const [x0, y0] = transform.invert([0, 0]);
+  const [x1, y1] = transform.invert([canvas.clientWidth, canvas.clientHeight]);
+  rect
+    .attr('x', x0 * scale.k + scale.x)
+    .attr('y', y0 * scale.k + scale.y)
+    .attr('width', (x1 - x0) * scale.k)
+    .attr('height', (y1 - y0) * scale.k);
+}
+
+// 各布局下根节点在画布中的位置
+function layoutOrigin(layout: TreeLayout, width: number, height: number): { x: number; y: number } {
+  switch (layout) {
+    case 'topDown': return { x: width / 2, y: 60 };
+    case 'leftToRight': return { x: 60, y: height / 2 };
+    case 'radial': return { x: width / 2, y: height / 2 };
+    case 'outline': return { x: 40, y: 40 };
+  }
+}
+
+function nodeTransform(x: number, y: number, scale: number): string {
+  return `translate(${x}, ${y}) scale(${scale})`;
+}
+
+// 首次渲染时创建各个图层，之后每一步只在图层内做数据绑定，元素得以保留并做过渡
+function ensureLayers(svgElement: SVGSVGElement) {
+  const svg = d3.select(svgElement);
+  if (svg.select('g.viewport').empty()) {
+    const defs = svg.append('defs');
+    [['fail-arrow', '#805ad5'], ['fail-arrow-active', '#f6ad55']].forEach(([id, color]) => {
+      defs.append('marker')
+        .attr('id', id)
+        .attr('viewBox', '0 -4 8 8')
+        .attr('refX', 30)
+        .attr('markerWidth', 8)
+        .attr('markerHeight', 8)
+        .attr('markerUnits', 'userSpaceOnUse')
+        .attr('orient', 'auto')
+        .append('path')
+        .attr('d', 'M0,-4L8,0L0,4')
+        .attr('fill', color);
+    });
+
+    const viewport = svg.append('g').attr('class', 'viewport');
+    ['links', 'fail-links', 'nodes', 'pointer', 'memory-slots', 'annotations'].forEach(name => {
+      viewport.append('g').attr('class', name);
+    });
+  }
+
+  const viewport = svg.select<SVGGElement>('g.viewport');
+  const layer = (name: string) => viewport.select<SVGGElement>(`g.${name}`);
+  return { viewport, layer };
+}
+
+// 找出当前步骤正在读写的 children[index] 槽位：
+// 移动/创建时为目标节点在父节点中的槽位，查找失败时为当前节点中为空的槽位
+function resolveActiveSlot(
+  step: AlgorithmStep,
+  nodes: TreeNode[],
+  parentOf: Map<string, TreeNode>,
+): ActiveSlot | null {
+  const lastId = step.highlightedNodes[step.highlightedNodes.length - 1];
+  if (!lastId) return null;
+
+  if (step.action === 'moveToChild' || step.action === 'createNode') {
+    const target = nodes.find(n => n.id === lastId);
+    const parent = parentOf.get(lastId);
+    if (!target || !parent) return null;
+    return { nodeId: parent.id, index: target.char.charCodeAt(0) - 97, childId: target.id };
+  }
+
+  const char = step.currentChar;
+  if (step.action === 'returnResult' && char && /^[a-z]$/.test(char)) {
+    const current = nodes.find(n => n.id === lastId);
+    if (!current || current.children.some(child => child.char[0] === char)) return null;
+    return { nodeId: current.id, index: char.charCodeAt(0) - 97, childId: null };
+  }
+
+  return null;
+}
+
+// 失败指针画成向一侧弯曲的二次贝塞尔曲线，避免与树边重叠
+function failLinkPath(source: TreeNode, target: TreeNode): string {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const distance = Math.hypot(dx, dy) || 1;
+  const bend = Math.min(80, distance * 0.35);
+  const cx = (source.x + target.x) / 2 - (dy / distance) * bend;
+  const cy = (source.y + target.y) / 2 + (dx / distance) * bend;
+  return `M${source.x},${source.y} Q${cx},${cy} ${target.x},${target.y}`;
+}
+
 function getAnnotationColor(type: Annotation['type']): string {
   switch (type) {
     case 'action': return '#63b3ed';
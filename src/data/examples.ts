@@ -1,4 +1,16 @@
-import type { ExampleData, Operation } from '../types';
+import type {
+  ExampleData,
+  ExpectedOutputResult,
+  ExpectedValue,
+  ImportFormat,
+  ImportLimitMode,
+  ImportResult,
+  Operation,
+  OperationType,
+  ParseError,
+  ParseResult,
+  RandomGeneratorOptions,
+} from '../types';
 
 export const exampleDatasets: ExampleData[] = [
   {
@@ -46,114 +58,611 @@ export const exampleDatasets: ExampleData[] = [
       { type: 'search', word: 'abcd' },
     ],
   },
+  {
+    name: '示例5: 删除与剪枝',
+    operations: [
+      { type: 'insert', word: 'car' },
+      { type: 'insert', word: 'card' },
+      { type: 'insert', word: 'care' },
+      { type: 'delete', word: 'card' },
+      { type: 'search', word: 'card' },
+      { type: 'delete', word: 'car' },
+      { type: 'search', word: 'care' },
+    ],
+  },
+  {
+    name: '示例6: 单词计数 (Trie II)',
+    operations: [
+      { type: 'insert', word: 'apple' },
+      { type: 'insert', word: 'apple' },
+      { type: 'countWordsEqualTo', word: 'apple' },
+      { type: 'countWordsStartingWith', word: 'app' },
+      { type: 'delete', word: 'apple' },
+      { type: 'countWordsEqualTo', word: 'apple' },
+      { type: 'countWordsStartingWith', word: 'app' },
+      { type: 'delete', word: 'apple' },
+      { type: 'countWordsStartingWith', word: 'app' },
+    ],
+  },
+  {
+    name: '示例7: 自动补全',
+    operations: [
+      { type: 'insert', word: 'car' },
+      { type: 'insert', word: 'card' },
+      { type: 'insert', word: 'care' },
+      { type: 'insert', word: 'care' },
+      { type: 'insert', word: 'cat' },
+      { type: 'insert', word: 'dog' },
+      { type: 'autocomplete', word: 'ca' },
+      { type: 'autocomplete', word: 'car', k: 2 },
+    ],
+  },
+  {
+    name: '示例8: 通配符搜索',
+    operations: [
+      { type: 'insert', word: 'bad' },
+      { type: 'insert', word: 'dad' },
+      { type: 'insert', word: 'mad' },
+      { type: 'searchWildcard', word: 'pad' },
+      { type: 'searchWildcard', word: 'bad' },
+      { type: 'searchWildcard', word: '.ad' },
+      { type: 'searchWildcard', word: 'b..' },
+      { type: 'searchWildcard', word: '..e' },
+    ],
+  },
+  {
+    name: '示例9: AC 自动机',
+    operations: [
+      { type: 'insert', word: 'he' },
+      { type: 'insert', word: 'she' },
+      { type: 'insert', word: 'his' },
+      { type: 'insert', word: 'hers' },
+    ],
+  },
 ];
 
-// 生成随机单词
-function generateRandomWord(minLength: number = 1, maxLength: number = 8): string {
-  const length = Math.floor(Math.random() * (maxLength - minLength + 1)) + minLength;
-  let word = '';
-  for (let i = 0; i < length; i++) {
-    word += String.fromCharCode(97 + Math.floor(Math.random() * 26));
-  }
-  return word;
+export const DEFAULT_RANDOM_OPTIONS: RandomGeneratorOptions = {
+  seed: 1,
+  count: 6,
+  alphabetSize: 26,
+  minLength: 2,
+  maxLength: 6,
+  insertRatio: 0.4,
+  sharedPrefixRatio: 0.3,
+  hitRatio: 0.5,
+};
+
+// 生成一个便于分享的新种子
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
 }
 
-// 生成随机操作序列
-export function generateRandomOperations(count: number = 6): Operation[] {
+// mulberry32：32 位种子的伪随机数生成器，返回 [0, 1) 之间的数
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 把参数限制在合法范围内，对话框里的输入可能为空或越界
+export function normalizeRandomOptions(options: RandomGeneratorOptions): RandomGeneratorOptions {
+  const clampInt = (value: number, min: number, max: number) =>
+    Math.min(max, Math.max(min, Math.floor(Number.isFinite(value) ? value : min)));
+  const clampRatio = (value: number) => Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+  const minLength = clampInt(options.minLength, 1, 20);
+  return {
+    seed: clampInt(options.seed, 0, 0xffffffff),
+    count: clampInt(options.count, 1, 200),
+    alphabetSize: clampInt(options.alphabetSize, 1, 26),
+    minLength,
+    maxLength: clampInt(options.maxLength, minLength, 20),
+    insertRatio: clampRatio(options.insertRatio),
+    sharedPrefixRatio: clampRatio(options.sharedPrefixRatio),
+    hitRatio: clampRatio(options.hitRatio),
+  };
+}
+
+// 按参数生成随机操作序列：先按插入比例插入单词，其余为 search / startsWith 查询
+export function generateRandomOperations(options: RandomGeneratorOptions = DEFAULT_RANDOM_OPTIONS): Operation[] {
+  const {
+    seed, count, alphabetSize, minLength, maxLength, insertRatio, sharedPrefixRatio, hitRatio,
+  } = normalizeRandomOptions(options);
+  const random = createRandom(seed);
+  const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const randomWord = (length: number) => {
+    let word = '';
+    for (let i = 0; i < length; i++) {
+      word += String.fromCharCode(97 + Math.floor(random() * alphabetSize));
+    }
+    return word;
+  };
+
   const operations: Operation[] = [];
   const insertedWords: string[] = [];
-  
-  // 确保至少有一些插入操作
-  const insertCount = Math.max(2, Math.floor(count * 0.4));
-  
+
+  // 至少插入两个单词，查询才有可命中的对象
+  const insertCount = Math.min(count, Math.max(2, Math.floor(count * insertRatio)));
   for (let i = 0; i < insertCount; i++) {
-    const word = generateRandomWord(2, 6);
+    const length = randomInt(minLength, maxLength);
+    let word: string;
+    if (insertedWords.length > 0 && random() < sharedPrefixRatio) {
+      // 沿用某个已插入单词的前缀，再补上随机后缀
+      const base = pick(insertedWords);
+      const prefixLength = randomInt(1, Math.min(base.length, length));
+      word = base.slice(0, prefixLength) + randomWord(length - prefixLength);
+    } else {
+      word = randomWord(length);
+    }
     operations.push({ type: 'insert', word });
     insertedWords.push(word);
   }
-  
-  // 添加搜索和前缀搜索操作
-  const remainingCount = count - insertCount;
-  for (let i = 0; i < remainingCount; i++) {
-    const opType = Math.random() > 0.5 ? 'search' : 'startsWith';
-    
-    // 50%概率使用已插入的单词或其前缀
+
+  for (let i = insertCount; i < count; i++) {
+    const type = random() < 0.5 ? 'search' : 'startsWith';
+    const isHit = (word: string) =>
+      type === 'search' ? insertedWords.includes(word) : insertedWords.some(inserted => inserted.startsWith(word));
+
     let word: string;
-    if (insertedWords.length > 0 && Math.random() > 0.5) {
-      const baseWord = insertedWords[Math.floor(Math.random() * insertedWords.length)];
-      if (opType === 'startsWith' && baseWord.length > 1) {
-        // 使用前缀
-        const prefixLength = Math.floor(Math.random() * (baseWord.length - 1)) + 1;
-        word = baseWord.substring(0, prefixLength);
-      } else {
-        word = baseWord;
-      }
+    if (random() < hitRatio) {
+      const base = pick(insertedWords);
+      word = type === 'startsWith' ? base.slice(0, randomInt(1, base.length)) : base;
     } else {
-      word = generateRandomWord(1, 5);
+      // 字母表很小时随机单词也可能命中，多试几次
+      word = randomWord(randomInt(minLength, maxLength));
+      for (let attempt = 0; attempt < 10 && isHit(word); attempt++) {
+        word = randomWord(randomInt(minLength, maxLength));
+      }
     }
-    
-    operations.push({ type: opType, word });
+    operations.push({ type, word });
   }
-  
+
   return operations;
 }
 
-// 解析用户输入的操作
-export function parseUserInput(input: string): Operation[] | null {
-  try {
-    // 尝试解析JSON格式
-    // 格式: [["Trie"], ["insert", "apple"], ["search", "apple"]]
-    const parsed = JSON.parse(input);
+// 方法名（小写）到操作类型的映射，erase 是 LeetCode 1804 中 delete 的名字
+const METHOD_ALIASES = new Map<string, OperationType>([
+  ['insert', 'insert'],
+  ['search', 'search'],
+  ['startswith', 'startsWith'],
+  ['delete', 'delete'],
+  ['erase', 'delete'],
+  ['countwordsequalto', 'countWordsEqualTo'],
+  ['countwordsstartingwith', 'countWordsStartingWith'],
+  ['autocomplete', 'autocomplete'],
+  ['searchwildcard', 'searchWildcard'],
+]);
+
+// 一次方法调用：方法名与参数列表，index 为它在序列中的位置（从 0 开始），
+// methodLine / argsLine 为方法名与参数所在的输入行，用于定位错误
+interface MethodCall {
+  method: unknown;
+  args: unknown[];
+  index: number;
+  methodLine?: number;
+  argsLine?: number;
+}
+
+// 解析用户输入的操作，支持三种格式：
+// 1. LeetCode 示例输入的两个数组（可分两行粘贴，也可写在一起）:
+//    ["Trie", "insert", "search"]
+//    [[], ["apple"], ["apple"]]
+// 2. 调用列表: [["Trie"], ["insert", "apple"], ["search", "apple"]]
+// 3. 简单格式: insert apple, search apple, startsWith app, delete apple, autocomplete app 3, searchWildcard a.p
+// 序列中途再次出现的 "Trie" 构造调用会重置整棵树
+export function parseUserInput(input: string): ParseResult {
+  const text = input.trim();
+  const result = text.startsWith('[') ? parseJsonInput(text) : parseSimpleInput(text);
+  if (result.errors.length === 0 && result.operations.length === 0) {
+    result.errors.push({ message: '没有解析到任何操作' });
+  }
+  return result;
+}
+
+function parseJsonInput(text: string): ParseResult {
+  const errors: ParseError[] = [];
+  const blocks = splitTopLevelArrays(text, errors);
+  if (errors.length > 0) {
+    return { operations: [], errors };
+  }
+  
+  const values: unknown[] = [];
+  for (const [i, block] of blocks.entries()) {
+    try {
+      values.push(JSON.parse(text.slice(block.start, block.end)));
+    } catch (error) {
+      errors.push({
+        line: lineAt(text, block.start),
+        message: `第 ${i + 1} 个数组不是合法的 JSON：${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+  if (errors.length > 0) {
+    return { operations: [], errors };
+  }
+  
+  // 两个数组写在同一个外层数组里，也按 LeetCode 格式处理
+  if (values.length === 1 && isLeetCodePair(values[0])) {
+    values.splice(0, 1, ...values[0]);
+  }
+  
+  if (values.length === 2) {
+    const [methods, args] = values;
+    if (!Array.isArray(methods) || !methods.every(method => typeof method === 'string')) {
+      return { operations: [], errors: [{ line: lineAt(text, blocks[0].start), message: '第一个数组应为方法名列表，例如 ["Trie", "insert", "search"]' }] };
+    }
+    if (!Array.isArray(args) || !args.every(Array.isArray)) {
+      return { operations: [], errors: [{ line: lineAt(text, blocks[1].start), message: '第二个数组应为参数列表，每个调用的参数是一个数组，例如 [[], ["apple"], ["apple"]]' }] };
+    }
+    if (methods.length !== args.length) {
+      return { operations: [], errors: [{ message: `方法名有 ${methods.length} 个，参数有 ${args.length} 组，数量不一致` }] };
+    }
+    // 两个数组写在同一个外层数组里时无法逐项定位到行
+    const methodLines = blocks.length === 2 ? elementLines(text, blocks[0]) : [];
+    const argsLines = blocks.length === 2 ? elementLines(text, blocks[1]) : [];
+    return toOperations(methods.map((method, index) => ({
+      method,
+      args: args[index],
+      index,
+      methodLine: methodLines[index],
+      argsLine: argsLines[index],
+    })));
+  }
+  
+  if (values.length === 1) {
+    const calls = values[0];
+    if (!Array.isArray(calls) || !calls.every(call => Array.isArray(call) && call.length > 0)) {
+      return { operations: [], errors: [{ line: 1, message: '调用列表的每一项应为 [方法名, 参数...]，例如 [["Trie"], ["insert", "apple"]]' }] };
+    }
+    const callLines = elementLines(text, blocks[0]);
+    return toOperations(calls.map(([method, ...args], index) => ({
+      method,
+      args,
+      index,
+      methodLine: callLines[index],
+      argsLine: callLines[index],
+    })));
+  }
+  
+  return { operations: [], errors: [{ message: `应为一个调用列表或两个数组（方法名、参数），实际有 ${values.length} 个数组` }] };
+}
+
+function isLeetCodePair(value: unknown): value is [string[], unknown[][]] {
+  return Array.isArray(value) && value.length === 2
+    && Array.isArray(value[0]) && value[0].every(item => typeof item === 'string')
+    && Array.isArray(value[1]) && value[1].length > 0 && value[1].every(Array.isArray);
+}
+
+// 找出文本中并列的顶层数组，数组之间只允许空白和逗号
+function splitTopLevelArrays(text: string, errors: ParseError[]): { start: number; end: number }[] {
+  const blocks: { start: number; end: number }[] = [];
+  let depth = 0;
+  let start = 0;
+  let inString = false;
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (depth === 0) {
+      if (!/[\s,]/.test(char)) {
+        errors.push({ line: lineAt(text, i), message: `数组之外出现了意外的字符 "${char}"` });
+        return blocks;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ']') {
+      depth--;
+      if (depth === 0) blocks.push({ start, end: i + 1 });
+    }
+  }
+  
+  if (depth > 0 || inString) {
+    errors.push({ line: lineAt(text, start), message: '数组没有闭合，缺少 "]"' });
+  }
+  return blocks;
+}
+
+// 数组中每个元素开头所在的行
+function elementLines(text: string, block: { start: number; end: number }): number[] {
+  const lines: number[] = [];
+  let depth = 0;
+  let inString = false;
+  let expectElement = true;
+  
+  for (let i = block.start + 1; i < block.end - 1; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (depth === 0 && char === ',') {
+      expectElement = true;
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+    if (depth === 0 && expectElement) {
+      lines.push(lineAt(text, i));
+      expectElement = false;
+    }
+    if (char === '"') inString = true;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') depth--;
+  }
+  return lines;
+}
+
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+// 把方法调用转换为操作，逐个校验方法名与参数
+function toOperations(calls: MethodCall[]): ParseResult {
+  const operations: Operation[] = [];
+  const errors: ParseError[] = [];
+  // 第一个构造函数对应期望输出开头可省略的 null，之后的每个都换成 reset，期望输出才能逐项对齐
+  let constructed = false;
+  
+  for (const { method, args, index, methodLine, argsLine } of calls) {
+    const where = `第 ${index + 1} 个调用`;
+    if (typeof method !== 'string') {
+      errors.push({ line: methodLine, message: `${where}：方法名应为字符串` });
+      continue;
+    }
     
-    if (!Array.isArray(parsed) || parsed.length < 2) {
-      return null;
+    if (method === 'Trie') {
+      if (args.length > 0) {
+        errors.push({ line: argsLine, message: `${where}：构造函数 Trie 不接受参数` });
+      } else {
+        if (constructed || operations.length > 0) {
+          operations.push({ type: 'reset', word: '' });
+        }
+        constructed = true;
+      }
+      continue;
     }
     
-    const operations: Operation[] = [];
+    const type = METHOD_ALIASES.get(method.toLowerCase());
+    if (!type) {
+      errors.push({ line: methodLine, message: `${where}：未知方法 "${method}"` });
+      continue;
+    }
     
-    // 跳过第一个Trie初始化
-    for (let i = 1; i < parsed.length; i++) {
-      const [method, arg] = parsed[i];
-      
-      if (method === 'insert' && typeof arg === 'string') {
-        operations.push({ type: 'insert', word: arg });
-      } else if (method === 'search' && typeof arg === 'string') {
-        operations.push({ type: 'search', word: arg });
-      } else if (method === 'startsWith' && typeof arg === 'string') {
-        operations.push({ type: 'startsWith', word: arg });
-      }
+    const [word, k] = args;
+    const maxArgs = type === 'autocomplete' ? 2 : 1;
+    if (args.length === 0) {
+      errors.push({ line: argsLine, message: `${where} ${method}：缺少参数` });
+      continue;
+    }
+    if (typeof word !== 'string' || args.length > maxArgs) {
+      errors.push({
+        line: argsLine,
+        message: type === 'autocomplete'
+          ? `${where} ${method}：参数应为 [前缀] 或 [前缀, k]`
+          : `${where} ${method}：参数应为 1 个字符串`,
+      });
+      continue;
     }
     
-    return operations.length > 0 ? operations : null;
-  } catch {
-    // 尝试解析简单格式
-    // 格式: insert apple, search apple, startsWith app
-    const lines = input.split(/[,\n]/).map(s => s.trim()).filter(s => s);
-    const operations: Operation[] = [];
+    const wordError = validateWord(type, word);
+    if (wordError) {
+      errors.push({ line: argsLine, message: `${where} ${method}：${wordError}` });
+      continue;
+    }
+    
+    if (k !== undefined && !(typeof k === 'number' && Number.isInteger(k) && k >= 0)) {
+      errors.push({ line: argsLine, message: `${where} ${method}：k 应为非负整数` });
+      continue;
+    }
     
-    for (const line of lines) {
-      const parts = line.split(/\s+/);
-      if (parts.length >= 2) {
-        const method = parts[0].toLowerCase();
-        const word = parts[1];
-        
-        if (/^[a-z]+$/.test(word)) {
-          if (method === 'insert') {
-            operations.push({ type: 'insert', word });
-          } else if (method === 'search') {
-            operations.push({ type: 'search', word });
-          } else if (method === 'startswith' || method === 'startsWith') {
-            operations.push({ type: 'startsWith', word });
+    operations.push(typeof k === 'number' && k > 0 ? { type, word, k } : { type, word });
+  }
+  
+  return { operations, errors };
+}
+
+function parseSimpleInput(text: string): ParseResult {
+  const operations: Operation[] = [];
+  const errors: ParseError[] = [];
+  let constructed = false; // 与 LeetCode 格式相同：只去掉开头的第一个构造
+  
+  text.split('\n').forEach((lineText, lineIndex) => {
+    const line = lineIndex + 1;
+    const items = lineText.split(',').map(s => s.trim()).filter(s => s);
+    
+    for (const item of items) {
+      const parts = item.split(/\s+/);
+      const method = parts[0];
+      
+      if (method === 'Trie' || method.toLowerCase() === 'reset') {
+        if (parts.length > 1) {
+          errors.push({ line, message: `"${item}"：${method} 不接受参数` });
+        } else {
+          if (constructed || operations.length > 0) {
+            operations.push({ type: 'reset', word: '' });
           }
+          constructed = true;
         }
+        continue;
+      }
+      
+      const type = METHOD_ALIASES.get(method.toLowerCase());
+      if (!type) {
+        errors.push({ line, message: `未知方法 "${method}"` });
+        continue;
+      }
+      
+      if (parts.length < 2) {
+        errors.push({ line, message: `${method} 缺少参数` });
+        continue;
+      }
+      
+      // autocomplete 可以带第三个参数 k，例如: autocomplete app 3
+      const maxParts = type === 'autocomplete' ? 3 : 2;
+      if (parts.length > maxParts) {
+        errors.push({
+          line,
+          message: type === 'autocomplete'
+            ? `"${item}"：参数过多，应为 autocomplete 前缀 [k]`
+            : `"${item}"：参数过多，${method} 后只跟 1 个单词`,
+        });
+        continue;
+      }
+      
+      const word = parts[1];
+      const wordError = validateWord(type, word);
+      if (wordError) {
+        errors.push({ line, message: wordError });
+        continue;
+      }
+      
+      const k = parts.length === 3 ? Number(parts[2]) : 0;
+      if (!Number.isInteger(k) || k < 0) {
+        errors.push({ line, message: `"${item}"：k 应为非负整数` });
+        continue;
       }
+      
+      operations.push(k > 0 ? { type, word, k } : { type, word });
     }
-    
-    return operations.length > 0 ? operations : null;
+  });
+  
+  return { operations, errors };
+}
+
+function validateWord(type: OperationType, word: string): string | null {
+  if (type === 'searchWildcard') {
+    return isValidPattern(word) ? null : `模式 "${word}" 不合法，只能包含小写字母和 '.'，长度1-2000`;
   }
+  return isValidWord(word) ? null : `单词 "${word}" 不合法，只能包含小写字母，长度1-2000`;
+}
+
+// 解析导入的文件：.json 或以 '[' 开头的内容按 LeetCode 格式，.csv 按 op,word 行，其余按每行一个单词的单词表
+export function parseImportFile(fileName: string, text: string): ImportResult {
+  const extension = fileName.toLowerCase().split('.').pop();
+  const format: ImportFormat = extension === 'json' || (extension !== 'csv' && text.trimStart().startsWith('['))
+    ? 'leetcode'
+    : extension === 'csv' ? 'csv' : 'wordList';
+
+  const result = format === 'leetcode' ? parseJsonInput(text.trim())
+    : format === 'csv' ? parseCsvInput(text)
+    : parseWordList(text);
+  if (result.errors.length === 0 && result.operations.length === 0) {
+    result.errors.push({ message: '文件中没有可导入的内容' });
+  }
+  return { ...result, format };
+}
+
+// 单词表：每行一个单词，统一转为小写后插入，不合法的行跳过并报告
+function parseWordList(text: string): ParseResult {
+  const operations: Operation[] = [];
+  const errors: ParseError[] = [];
+
+  text.split(/\r?\n/).forEach((lineText, lineIndex) => {
+    const word = lineText.trim().toLowerCase();
+    if (!word) return;
+    if (isValidWord(word)) {
+      operations.push({ type: 'insert', word });
+    } else {
+      errors.push({ line: lineIndex + 1, message: `"${lineText.trim()}" 不是合法的单词，只能包含小写字母 a-z` });
+    }
+  });
+
+  return { operations, errors };
+}
+
+// CSV：每行 op,word，autocomplete 可带第三列 k，第一行可以是表头
+function parseCsvInput(text: string): ParseResult {
+  const calls: MethodCall[] = [];
+
+  text.split(/\r?\n/).forEach((lineText, lineIndex) => {
+    if (!lineText.trim()) return;
+    const [method, ...args] = lineText.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+    if (calls.length === 0 && /^(op|operation|method)$/i.test(method)) return;
+
+    const line = lineIndex + 1;
+    calls.push({
+      method,
+      args: args.filter(arg => arg !== '').map((arg, i) => (i === 1 && /^\d+$/.test(arg) ? Number(arg) : arg)),
+      index: calls.length,
+      methodLine: line,
+      argsLine: line,
+    });
+  });
+
+  return toOperations(calls);
+}
+
+// 控制导入的数量，抽样使用固定种子，相同的种子总是抽到同样的操作
+export function limitOperations(operations: Operation[], mode: ImportLimitMode, limit: number, seed: number): Operation[] {
+  if (mode === 'all' || limit >= operations.length) {
+    return operations;
+  }
+  if (mode === 'first') {
+    return operations.slice(0, Math.max(0, limit));
+  }
+
+  // 部分 Fisher-Yates 洗牌选出 limit 个下标，再按原顺序排列
+  const random = createRandom(seed);
+  const indices = operations.map((_, i) => i);
+  for (let i = 0; i < limit; i++) {
+    const j = i + Math.floor(random() * (indices.length - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, limit).sort((x, y) => x - y).map(i => operations[i]);
+}
+
+// 解析 LeetCode 的期望输出，例如 [null,null,true,false,true,null,true]
+// 开头构造函数对应的 null 可有可无，有的话会被去掉，使每一项与操作序列一一对应
+export function parseExpectedOutput(input: string, operationCount: number): ExpectedOutputResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch (error) {
+    return { values: [], errors: [{ message: `期望输出不是合法的 JSON：${error instanceof Error ? error.message : String(error)}` }] };
+  }
+  
+  if (!Array.isArray(parsed)) {
+    return { values: [], errors: [{ message: '期望输出应为数组，例如 [null,null,true,false]' }] };
+  }
+  
+  const values = parsed.length === operationCount + 1 && parsed[0] === null ? parsed.slice(1) : parsed;
+  if (values.length !== operationCount) {
+    return {
+      values: [],
+      errors: [{ message: `期望输出有 ${parsed.length} 项，与 ${operationCount} 个操作对应不上（开头 Trie 构造的 null 可省略）` }],
+    };
+  }
+  
+  const errors: ParseError[] = [];
+  values.forEach((value, index) => {
+    if (!isExpectedValue(value)) {
+      errors.push({ message: `期望输出第 ${index + 1} 项 ${JSON.stringify(value)} 不是 null、布尔值、数字或字符串数组` });
+    }
+  });
+  return { values: errors.length > 0 ? [] : values, errors };
+}
+
+function isExpectedValue(value: unknown): value is ExpectedValue {
+  return value === null || typeof value === 'boolean' || typeof value === 'number'
+    || (Array.isArray(value) && value.every(item => typeof item === 'string'));
 }
 
 // 验证单词是否合法
 export function isValidWord(word: string): boolean {
   return /^[a-z]+$/.test(word) && word.length >= 1 && word.length <= 2000;
 }
+
+// 验证通配符模式是否合法，'.' 匹配任意一个字符
+export function isValidPattern(pattern: string): boolean {
+  return /^[a-z.]+$/.test(pattern) && pattern.length >= 1 && pattern.length <= 2000;
+}
@@ -4,15 +4,38 @@ export interface TrieNode {
   char: string;
   children: Map<string, TrieNode>;
   isEnd: boolean;
+  passCount: number; // 经过该节点的单词数
+  endCount: number; // 以该节点结尾的单词数
   depth: number;
   parent: TrieNode | null;
 }
 
+// 压缩前缀树节点类型，label 为从父节点到该节点的边上的子串
+export interface RadixNode {
+  id: string;
+  label: string;
+  children: Map<string, RadixNode>; // 以边标签的首字符为键
+  isEnd: boolean;
+  passCount: number;
+  endCount: number;
+  depth: number;
+  parent: RadixNode | null;
+}
+
+// 数据结构模式：标准 Trie（每个节点一个字符）、压缩前缀树（边上保存子串）
+// 或 AC 自动机（在 Trie 上构建失败指针做多模式匹配）
+export type TrieMode = 'standard' | 'radix' | 'ahoCorasick';
+
+// 画布上树的布局：自上而下、从左到右、径向、缩进大纲
+export type TreeLayout = 'topDown' | 'leftToRight' | 'radial' | 'outline';
+
 // 可视化节点类型
 export interface VisualNode {
   id: string;
   char: string;
   isEnd: boolean;
+  passCount: number;
+  endCount: number;
   x: number;
   y: number;
   depth: number;
@@ -20,8 +43,26 @@ export interface VisualNode {
   highlighted: boolean;
   highlightType?: 'current' | 'path' | 'found' | 'notFound' | 'inserted';
   label?: string;
+  failId?: string; // AC 自动机的失败指针指向的节点
 }
 
+// 相邻步骤之间的树结构增量，按顺序应用到上一步的树上即得到当前步骤的树
+export type TrieDelta =
+  | {
+      type: 'create';
+      id: string;
+      parentId: string | null;
+      char: string;
+      isEnd: boolean;
+      passCount: number;
+      endCount: number;
+      index?: number; // 在父节点子列表中的位置，缺省时追加到末尾
+    }
+  | { type: 'update'; id: string; changes: Partial<Pick<VisualNode, 'char' | 'isEnd' | 'passCount' | 'endCount'>> }
+  | { type: 'remove'; id: string } // 连同子树一起删除
+  | { type: 'move'; id: string; parentId: string; index?: number } // 挂到新的父节点下，index 含义同 create
+  | { type: 'setFail'; id: string; failId: string };
+
 // 可视化边类型
 export interface VisualEdge {
   source: VisualNode;
@@ -31,18 +72,30 @@ export interface VisualEdge {
 }
 
 // 操作类型
-export type OperationType = 'insert' | 'search' | 'startsWith';
+export type OperationType =
+  | 'insert'
+  | 'search'
+  | 'startsWith'
+  | 'delete'
+  | 'countWordsEqualTo'
+  | 'countWordsStartingWith'
+  | 'autocomplete'
+  | 'searchWildcard'
+  | 'reset'; // 序列中途再次调用构造函数 Trie()，清空整棵树
 
 // 操作记录
 export interface Operation {
   type: OperationType;
   word: string;
-  result?: boolean;
+  k?: number; // autocomplete 返回前 k 个（按出现次数排序），不设置则返回全部
+  disabled?: boolean; // 暂时停用，生成步骤时跳过
+  result?: boolean | number | string[];
 }
 
 // 算法步骤
 export interface AlgorithmStep {
   stepIndex: number;
+  opIndex?: number; // 所属操作在序列中的下标，初始化、AC 自动机的构建与匹配阶段等不属于任何操作的步骤缺省
   description: string;
   codeLineMap: {
     java: number[];
@@ -55,9 +108,51 @@ export interface AlgorithmStep {
   currentChar?: string;
   currentCharIndex?: number;
   variables: Record<string, string | number | boolean>;
-  trieSnapshot: VisualNode | null;
+  deltas: TrieDelta[]; // 本步骤对树结构的修改
+  checkpoint?: VisualNode; // 每隔若干步保存一次完整快照，用于快速定位任意步骤
   annotations: Annotation[];
-  action?: 'moveToChild' | 'createNode' | 'markEnd' | 'checkEnd' | 'returnResult';
+  collectedWords?: string[];
+  failedNodes?: string[]; // 已探索并失败（被剪枝）的分支
+  textCursor?: { text: string; index: number }; // AC 自动机匹配阶段的文本及当前读到的位置
+  action?:
+    | 'moveToChild'
+    | 'createNode'
+    | 'markEnd'
+    | 'checkEnd'
+    | 'returnResult'
+    | 'unmarkEnd'
+    | 'pruneNode'
+    | 'visitNode'
+    | 'collectWord'
+    | 'branch'
+    | 'backtrack'
+    | 'splitNode'
+    | 'mergeNode'
+    | 'setFail'
+    | 'followFail'
+    | 'emitMatch';
+}
+
+// 步骤生成进度回调：每完成一个操作，传入该操作新生成的步骤
+export type StepProgressHandler = (batch: AlgorithmStep[], completedOperations: number) => void;
+
+// 步骤生成 Worker 的消息协议
+export interface StepWorkerRequest {
+  type: 'generate';
+  operations: Operation[];
+  mode: TrieMode;
+  text: string; // AC 自动机模式下用于匹配的文本
+}
+
+export type StepWorkerResponse =
+  | { type: 'batch'; steps: AlgorithmStep[]; completedOperations: number; totalOperations: number }
+  | { type: 'done'; results: Operation['result'][]; totalSteps: number }
+  | { type: 'error'; message: string };
+
+// 步骤生成进度（以已完成的操作数计）
+export interface GenerationProgress {
+  completedOperations: number;
+  totalOperations: number;
 }
 
 // 标注类型
@@ -80,6 +175,69 @@ export interface PlaybackState {
   speed: number;
 }
 
+// 输入解析错误，line 为出错的输入行（从 1 开始），无法定位到行时缺省
+export interface ParseError {
+  line?: number;
+  message: string;
+}
+
+export interface ParseResult {
+  operations: Operation[];
+  errors: ParseError[];
+}
+
+// LeetCode 期望输出中的一项，没有返回值的调用为 null
+export type ExpectedValue = boolean | number | string[] | null;
+
+export interface ExpectedOutputResult {
+  values: ExpectedValue[];
+  errors: ParseError[];
+}
+
+// 从文件导入时识别出的格式：纯文本单词表（每行一个单词）、op,word 的 CSV、LeetCode JSON
+export type ImportFormat = 'wordList' | 'csv' | 'leetcode';
+
+export interface ImportResult extends ParseResult {
+  format: ImportFormat;
+}
+
+// 导入数量控制：全部导入、只取前 n 个、随机抽样 n 个（保持原有顺序）
+export type ImportLimitMode = 'all' | 'first' | 'sample';
+
+// 分享链接中保存的状态：操作序列、当前步骤、语言和视图选项
+export interface ShareState {
+  operations: Operation[];
+  step: number;
+  language: ProgrammingLanguage;
+  mode: TrieMode;
+  matchText: string;
+  speed: number;
+  expectedOutput: string;
+  layout: TreeLayout;
+}
+
+// 保存在 IndexedDB 中的场景（命名的操作序列）
+export interface SavedScenario {
+  id: string;
+  name: string;
+  tags: string[];
+  operations: Operation[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// 随机数据生成参数，相同的参数（含种子）总是生成相同的操作序列
+export interface RandomGeneratorOptions {
+  seed: number;
+  count: number; // 操作数量
+  alphabetSize: number; // 只使用字母表的前 n 个字母，越小单词之间越容易共享前缀
+  minLength: number;
+  maxLength: number;
+  insertRatio: number; // 0-1，insert 在操作中的占比，其余为 search / startsWith 查询
+  sharedPrefixRatio: number; // 0-1，插入的单词沿用已插入单词前缀的概率
+  hitRatio: number; // 0-1，查询命中（返回 true）的概率
+}
+
 // 示例数据
 export interface ExampleData {
   name: string;
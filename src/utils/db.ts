@@ -1,5 +1,6 @@
 import { openDB } from 'idb';
 import type { DBSchema, IDBPDatabase } from 'idb';
+import type { SavedScenario } from '../types';
 
 interface TrieVisualizerDB extends DBSchema {
   settings: {
@@ -18,6 +19,11 @@ interface TrieVisualizerDB extends DBSchema {
       expireAt: number;
     };
   };
+  scenarios: {
+    key: string;
+    value: SavedScenario;
+    indexes: { 'by-updatedAt': number };
+  };
 }
 
 let dbInstance: IDBPDatabase<TrieVisualizerDB> | null = null;
@@ -25,14 +31,17 @@ let dbInstance: IDBPDatabase<TrieVisualizerDB> | null = null;
 async function getDB(): Promise<IDBPDatabase<TrieVisualizerDB>> {
   if (dbInstance) return dbInstance;
   
-  dbInstance = await openDB<TrieVisualizerDB>('trie-visualizer', 1, {
-    upgrade(db) {
-      if (!db.objectStoreNames.contains('settings')) {
+  dbInstance = await openDB<TrieVisualizerDB>('trie-visualizer', 2, {
+    upgrade(db, oldVersion) {
+      if (oldVersion < 1) {
         db.createObjectStore('settings', { keyPath: 'key' });
-      }
-      if (!db.objectStoreNames.contains('cache')) {
         db.createObjectStore('cache', { keyPath: 'key' });
       }
+      // v2：新增场景库
+      if (oldVersion < 2) {
+        const scenarios = db.createObjectStore('scenarios', { keyPath: 'id' });
+        scenarios.createIndex('by-updatedAt', 'updatedAt');
+      }
     },
   });
   
@@ -89,3 +98,43 @@ export async function isCacheValid(key: string): Promise<boolean> {
   if (!result) return false;
   return Date.now() <= result.expireAt;
 }
+
+// 获取所有场景，最近修改的在前
+export async function listScenarios(): Promise<SavedScenario[]> {
+  const db = await getDB();
+  const scenarios = await db.getAllFromIndex('scenarios', 'by-updatedAt');
+  return scenarios.reverse();
+}
+
+// 保存新场景
+export async function saveScenario(
+  scenario: Pick<SavedScenario, 'name' | 'tags' | 'operations'>,
+): Promise<SavedScenario> {
+  const db = await getDB();
+  const now = Date.now();
+  const saved: SavedScenario = {
+    ...scenario,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.put('scenarios', saved);
+  return saved;
+}
+
+// 修改场景的名称或标签
+export async function updateScenario(
+  id: string,
+  changes: Partial<Pick<SavedScenario, 'name' | 'tags'>>,
+): Promise<void> {
+  const db = await getDB();
+  const scenario = await db.get('scenarios', id);
+  if (!scenario) return;
+  await db.put('scenarios', { ...scenario, ...changes, updatedAt: Date.now() });
+}
+
+// 删除场景
+export async function deleteScenario(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('scenarios', id);
+}
@@ -0,0 +1,238 @@
+// 把画布导出为独立的 SVG / PNG：样式逐个元素内联，不依赖页面上的 CSS
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 40;
+const CAPTION_HEIGHT = 44;
+const BACKGROUND = '#0f0f1a';
+// 与画布相同的字体（TrieCanvas.css）；Noto Sans SC 用到的子集会嵌入 SVG，其余只作回退
+const EMBEDDED_FONT = 'Noto Sans SC';
+const FONT_FAMILY = `'${EMBEDDED_FONT}', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif`;
+const CAPTION_FONT_SIZE = 14;
+
+// 导出时内联的样式属性，其余（过渡、鼠标样式等）与静态图片无关
+const INLINED_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-opacity',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'paint-order',
+  'text-anchor',
+];
+
+export interface ExportOptions {
+  caption?: string; // 写在图片底部的说明，例如当前步骤的描述
+}
+
+export interface ExportedSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// 复制画布中的树（不含空状态提示），裁剪到内容范围并加上背景和说明，用到的字体以 data URI 嵌入
+export async function buildExportSvg(canvas: SVGSVGElement, options: ExportOptions = {}): Promise<ExportedSvg> {
+  const viewport = canvas.querySelector<SVGGElement>('g.viewport');
+  if (!viewport) {
+    throw new Error('画布还没有内容');
+  }
+
+  // 先同步复制画布，之后等待字体时画布即使重绘也不影响导出内容
+  const box = viewport.getBBox();
+  const defs = canvas.querySelector('defs');
+  const clonedDefs = defs ? cloneWithStyles(defs) : document.createElementNS(SVG_NS, 'defs');
+  const content = cloneWithStyles(viewport);
+
+  // 说明比树宽时加宽画布，避免被截断
+  const captionWidth = options.caption ? await measureCaption(canvas, options.caption) + PADDING * 2 : 0;
+  const width = Math.ceil(Math.max(box.width + PADDING * 2, captionWidth));
+  const contentHeight = Math.ceil(box.height + PADDING * 2);
+  const height = contentHeight + (options.caption ? CAPTION_HEIGHT : 0);
+
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  svg.setAttribute('font-family', FONT_FAMILY);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', BACKGROUND);
+  svg.appendChild(background);
+
+  svg.appendChild(clonedDefs);
+  content.setAttribute('transform', `translate(${(width - box.width) / 2 - box.x}, ${PADDING - box.y})`);
+  svg.appendChild(content);
+
+  if (options.caption) {
+    const caption = document.createElementNS(SVG_NS, 'text');
+    caption.setAttribute('x', String(width / 2));
+    caption.setAttribute('y', String(contentHeight + CAPTION_HEIGHT / 2));
+    caption.setAttribute('dy', '0.35em');
+    caption.setAttribute('text-anchor', 'middle');
+    caption.setAttribute('fill', '#e2e8f0');
+    caption.setAttribute('font-size', `${CAPTION_FONT_SIZE}px`);
+    caption.textContent = options.caption;
+    svg.appendChild(caption);
+  }
+
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = await embeddedFontFaces(svg);
+  clonedDefs.appendChild(style);
+
+  return { markup: new XMLSerializer().serializeToString(svg), width, height };
+}
+
+// 用与导出时相同的字体量出说明的实际宽度，中英文混排时不会估多或估少
+async function measureCaption(canvas: SVGSVGElement, caption: string): Promise<number> {
+  await document.fonts.load(`${CAPTION_FONT_SIZE}px '${EMBEDDED_FONT}'`, caption);
+  const text = document.createElementNS(SVG_NS, 'text');
+  text.setAttribute('font-family', FONT_FAMILY);
+  text.setAttribute('font-size', `${CAPTION_FONT_SIZE}px`);
+  text.setAttribute('visibility', 'hidden');
+  text.textContent = caption;
+  canvas.appendChild(text);
+  try {
+    return text.getComputedTextLength();
+  } finally {
+    text.remove();
+  }
+}
+
+// 在页面样式表里找出 Noto Sans SC 中覆盖 SVG 文字、字重匹配的 @font-face 子集，
+// 下载字体文件并改写成 data URI，打开 SVG 的设备不需要装这个字体
+async function embeddedFontFaces(svg: SVGSVGElement): Promise<string> {
+  const codePoints = [...new Set(svg.textContent ?? '')].map(char => char.codePointAt(0) ?? 0);
+  const weights = new Set(
+    [...svg.querySelectorAll<SVGTextElement>('text')].map(text => normalizeWeight(text.style.fontWeight)),
+  );
+
+  const faces = fontFaceRules().filter(rule => {
+    const unicodeRange = rule.style.getPropertyValue('unicode-range');
+    return weights.has(normalizeWeight(rule.style.getPropertyValue('font-weight')))
+      && (!unicodeRange || codePoints.some(codePoint => inUnicodeRange(codePoint, unicodeRange)));
+  });
+
+  const declarations = await Promise.all(faces.map(async rule => {
+    const url = rule.style.getPropertyValue('src').match(/url\(["']?([^"')]+)["']?\)/)?.[1];
+    if (!url) return '';
+    const response = await fetch(new URL(url, rule.parentStyleSheet?.href ?? document.baseURI));
+    if (!response.ok) {
+      throw new Error(`字体下载失败：${response.status}`);
+    }
+    const dataUrl = await blobToDataUrl(await response.blob());
+    const format = url.endsWith('.woff2') ? 'woff2' : 'woff';
+    return `@font-face{font-family:'${EMBEDDED_FONT}';font-weight:${rule.style.getPropertyValue('font-weight')};`
+      + `src:url(${dataUrl}) format('${format}');unicode-range:${rule.style.getPropertyValue('unicode-range')}}`;
+  }));
+  return declarations.join('\n');
+}
+
+function fontFaceRules(): CSSFontFaceRule[] {
+  const rules: CSSFontFaceRule[] = [];
+  for (const sheet of document.styleSheets) {
+    let sheetRules: CSSRuleList;
+    try {
+      sheetRules = sheet.cssRules;
+    } catch {
+      continue; // 跨域样式表读不到规则，字体也不会来自那里
+    }
+    for (const rule of sheetRules) {
+      if (rule instanceof CSSFontFaceRule
+        && rule.style.getPropertyValue('font-family').replace(/["']/g, '') === EMBEDDED_FONT) {
+        rules.push(rule);
+      }
+    }
+  }
+  return rules;
+}
+
+// 计算样式里是数字字重，未设置或写成关键字时换成对应的数字
+function normalizeWeight(weight: string): string {
+  if (!weight || weight === 'normal') return '400';
+  if (weight === 'bold') return '700';
+  return weight;
+}
+
+// unicode-range 形如 U+4e00-9fff, U+3001, U+30??
+function inUnicodeRange(codePoint: number, unicodeRange: string): boolean {
+  return unicodeRange.split(',').some(part => {
+    const [start, end = start] = part.trim().replace(/^u\+/i, '').split('-');
+    const low = parseInt(start.replace(/\?/g, '0'), 16);
+    const high = parseInt(end.replace(/\?/g, 'f'), 16);
+    return codePoint >= low && codePoint <= high;
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// 深拷贝元素，并把页面上计算出的样式写进每个元素的 style
+function cloneWithStyles<T extends Element>(source: T): T {
+  const clone = source.cloneNode(true) as T;
+  const sources = [source, ...source.querySelectorAll('*')];
+  const clones = [clone, ...clone.querySelectorAll('*')];
+
+  sources.forEach((element, index) => {
+    const computed = window.getComputedStyle(element);
+    const style = INLINED_PROPERTIES
+      .map(property => `${property}:${computed.getPropertyValue(property)}`)
+      .join(';');
+    clones[index].setAttribute('style', style);
+  });
+  return clone;
+}
+
+export function downloadSvg(exported: ExportedSvg, fileName: string): void {
+  download(new Blob([exported.markup], { type: 'image/svg+xml;charset=utf-8' }), fileName);
+}
+
+// 把 SVG 画到 scale 倍大小的 canvas 上再导出 PNG
+export async function downloadPng(exported: ExportedSvg, scale: number, fileName: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([exported.markup], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = exported.width * scale;
+    canvas.height = exported.height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('浏览器不支持 canvas');
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, exported.width, exported.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('生成 PNG 失败');
+    }
+    download(blob, fileName);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function download(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url)); // 等下载开始后再释放
+}
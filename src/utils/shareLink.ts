@@ -0,0 +1,123 @@
+import type { Operation, OperationType, ProgrammingLanguage, ShareState, TreeLayout, TrieMode } from '../types';
+import { isValidPattern, isValidWord } from '../data/examples';
+
+// 分享状态写在 hash 里（不会发给服务器）：#s=<deflate 压缩后的 JSON 的 base64url>
+const HASH_PREFIX = '#s=';
+const VERSION = 1;
+
+const OPERATION_TYPES: OperationType[] = [
+  'insert',
+  'search',
+  'startsWith',
+  'delete',
+  'countWordsEqualTo',
+  'countWordsStartingWith',
+  'autocomplete',
+  'searchWildcard',
+  'reset',
+];
+const LANGUAGES: ProgrammingLanguage[] = ['java', 'python', 'golang', 'javascript'];
+const MODES: TrieMode[] = ['standard', 'radix', 'ahoCorasick'];
+const LAYOUTS: TreeLayout[] = ['topDown', 'leftToRight', 'radial', 'outline'];
+
+// 操作压缩成 [类型序号, 单词, k?, 停用?]，比对象形式短得多
+type PackedOperation = [number, string, number?, 1?];
+
+interface Payload {
+  v: number;
+  o: PackedOperation[];
+  s: number;
+  l: string;
+  m: string;
+  t: string;
+  p: number;
+  e: string;
+  y?: string; // 画布布局，较早生成的链接没有这一项
+}
+
+// 当前地址是否是分享链接，从分享链接打开时以链接中的设置为准，不再读取保存的设置
+export function hasShareLink(): boolean {
+  return window.location.hash.startsWith(HASH_PREFIX);
+}
+
+export async function encodeShareState(state: ShareState): Promise<string> {
+  const payload: Payload = {
+    v: VERSION,
+    o: state.operations.map(packOperation),
+    s: state.step,
+    l: state.language,
+    m: state.mode,
+    t: state.matchText,
+    p: state.speed,
+    e: state.expectedOutput,
+    y: state.layout,
+  };
+  const bytes = await transform(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  return HASH_PREFIX + toBase64Url(bytes);
+}
+
+// 解析分享链接，链接损坏或内容不合法时返回 null
+export async function decodeShareState(hash: string): Promise<ShareState | null> {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    const bytes = await transform(fromBase64Url(hash.slice(HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    const payload = JSON.parse(new TextDecoder().decode(bytes)) as Payload;
+    if (payload.v !== VERSION || !Array.isArray(payload.o)) return null;
+
+    const operations = payload.o.map(unpackOperation);
+    if (operations.some(op => op === null)) return null;
+
+    return {
+      operations: operations as Operation[],
+      step: Number.isInteger(payload.s) && payload.s >= 0 ? payload.s : 0,
+      language: LANGUAGES.includes(payload.l as ProgrammingLanguage) ? payload.l as ProgrammingLanguage : 'java',
+      mode: MODES.includes(payload.m as TrieMode) ? payload.m as TrieMode : 'standard',
+      matchText: typeof payload.t === 'string' ? payload.t.toLowerCase().replace(/[^a-z]/g, '') : '',
+      speed: typeof payload.p === 'number' && payload.p > 0 ? payload.p : 1,
+      expectedOutput: typeof payload.e === 'string' ? payload.e : '',
+      layout: LAYOUTS.includes(payload.y as TreeLayout) ? payload.y as TreeLayout : 'topDown',
+    };
+  } catch {
+    return null;
+  }
+}
+
+function packOperation(op: Operation): PackedOperation {
+  const packed: PackedOperation = [OPERATION_TYPES.indexOf(op.type), op.word];
+  if (op.k !== undefined || op.disabled) packed.push(op.k ?? 0);
+  if (op.disabled) packed.push(1);
+  return packed;
+}
+
+function unpackOperation(packed: unknown): Operation | null {
+  if (!Array.isArray(packed)) return null;
+  const [typeIndex, word, k, disabled] = packed;
+  const type = OPERATION_TYPES[typeIndex];
+  if (!type || typeof word !== 'string') return null;
+  if (type === 'reset' ? word !== '' : !(type === 'searchWildcard' ? isValidPattern(word) : isValidWord(word))) {
+    return null;
+  }
+
+  const op: Operation = { type, word };
+  if (type === 'autocomplete' && Number.isInteger(k) && k > 0) op.k = k;
+  if (disabled === 1) op.disabled = true;
+  return op;
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
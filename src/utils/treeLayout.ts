@@ -0,0 +1,186 @@
+import * as d3 from 'd3';
+import type { Annotation, TreeLayout, VisualNode } from '../types';
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+// 文字相对坐标与对齐方式
+export interface Placement {
+  x: number;
+  y: number;
+  anchor: 'start' | 'middle' | 'end';
+}
+
+const HORIZONTAL_SPACING = 70;
+const VERTICAL_SPACING = 80;
+const LEVEL_SPACING_LTR = 110; // 从左到右布局中层与层的间距，留出边标签的位置
+const RADIUS_STEP = 80;
+const OUTLINE_INDENT = 50;
+const OUTLINE_ROW_HEIGHT = 52;
+const SLOT_ROW_Y = 44; // 自上而下布局中槽位行与节点中心的距离，在计数标签之下、下一层节点之上
+
+// 子节点按字符排序，布局与绘制使用同一顺序
+export function sortedChildren(node: VisualNode): VisualNode[] {
+  return [...node.children].sort((a, b) => (a.char < b.char ? -1 : a.char > b.char ? 1 : 0));
+}
+
+// 按布局计算每个节点的位置；previous 为同一布局下上一步的位置，用于减少整体跳动
+export function computeLayout(
+  layout: TreeLayout,
+  root: VisualNode,
+  previous?: Map<string, NodePosition>,
+): Map<string, NodePosition> {
+  switch (layout) {
+    case 'topDown':
+      return tidyLayout(root, [HORIZONTAL_SPACING, VERTICAL_SPACING], previous);
+    case 'leftToRight':
+      // 在转置的坐标系里做同样的整齐树布局，再把 x、y 交换回来
+      return transpose(tidyLayout(root, [HORIZONTAL_SPACING, LEVEL_SPACING_LTR], previous && transpose(previous)));
+    case 'radial':
+      return radialLayout(root);
+    case 'outline':
+      return outlineLayout(root);
+  }
+}
+
+// Reingold–Tilford 整齐树布局（d3.tree）：任意两棵子树互不重叠，父节点位于子节点中间
+// 传入上一步的位置时，整体平移使已有节点的水平位移之和最小，新增节点时旧节点尽量不动
+function tidyLayout(
+  root: VisualNode,
+  nodeSize: [number, number],
+  previous?: Map<string, NodePosition>,
+): Map<string, NodePosition> {
+  const hierarchy = d3.hierarchy(root, sortedChildren);
+  d3.tree<VisualNode>()
+    .nodeSize(nodeSize)
+    .separation((a, b) => (a.parent === b.parent ? 1 : 1.25))(hierarchy);
+
+  const positions = new Map<string, NodePosition>();
+  hierarchy.each(node => {
+    positions.set(node.data.id, { x: node.x ?? 0, y: node.y ?? 0 });
+  });
+
+  return shiftPositions(positions, horizontalOffset(positions, previous));
+}
+
+// 径向布局：根在圆心，每层一圈；叶子多时加大半径，保证最外圈放得下
+function radialLayout(root: VisualNode): Map<string, NodePosition> {
+  const hierarchy = d3.hierarchy(root, sortedChildren);
+  const height = Math.max(1, hierarchy.height);
+  const radiusStep = Math.max(RADIUS_STEP, (hierarchy.leaves().length * HORIZONTAL_SPACING) / (2 * Math.PI * height));
+  d3.tree<VisualNode>()
+    .size([2 * Math.PI, height * radiusStep])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(hierarchy);
+
+  const positions = new Map<string, NodePosition>();
+  hierarchy.each(node => {
+    const angle = (node.x ?? 0) - Math.PI / 2; // 从正上方开始顺时针排列
+    const radius = node.y ?? 0;
+    positions.set(node.data.id, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+  });
+  return positions;
+}
+
+// 缩进大纲：先序遍历，每个节点占一行，按深度缩进
+function outlineLayout(root: VisualNode): Map<string, NodePosition> {
+  const positions = new Map<string, NodePosition>();
+  let row = 0;
+  const visit = (node: VisualNode, depth: number) => {
+    positions.set(node.id, { x: depth * OUTLINE_INDENT, y: row * OUTLINE_ROW_HEIGHT });
+    row++;
+    sortedChildren(node).forEach(child => visit(child, depth + 1));
+  };
+  visit(root, 0);
+  return positions;
+}
+
+// 边的路径统一为三个点，切换布局时路径可以平滑过渡；大纲中为先竖后横的折线
+export function linkPath(layout: TreeLayout, source: NodePosition, target: NodePosition): string {
+  const corner = layout === 'outline'
+    ? { x: source.x, y: target.y }
+    : { x: (source.x + target.x) / 2, y: (source.y + target.y) / 2 };
+  return `M${source.x},${source.y} L${corner.x},${corner.y} L${target.x},${target.y}`;
+}
+
+// 边上字符标签的位置；大纲中写在子节点右侧
+export function edgeLabelPlacement(layout: TreeLayout, source: NodePosition, target: NodePosition): Placement {
+  const midX = (source.x + target.x) / 2;
+  const midY = (source.y + target.y) / 2;
+  switch (layout) {
+    case 'topDown':
+      return { x: midX - 6, y: midY, anchor: 'end' };
+    case 'leftToRight':
+    case 'radial':
+      return { x: midX, y: midY - 6, anchor: 'middle' };
+    case 'outline':
+      return { x: target.x + 30, y: target.y - 2, anchor: 'start' };
+  }
+}
+
+// 节点计数标签相对节点中心的位置；大纲的行距放不下，改到节点右侧
+export function counterPlacement(layout: TreeLayout): Placement {
+  return layout === 'outline' ? { x: 30, y: 12, anchor: 'start' } : { x: 0, y: 34, anchor: 'middle' };
+}
+
+// 内存布局中 children[26] 槽位行左上角相对节点中心的位置；只有自上而下布局在节点下方留有整行的空间，
+// 其余布局中槽位行会压住相邻节点和其他行，返回 null 表示不支持内存布局
+export function slotRowPlacement(layout: TreeLayout, rowWidth: number): NodePosition | null {
+  return layout === 'topDown' ? { x: -rowWidth / 2, y: SLOT_ROW_Y } : null;
+}
+
+// 标注相对节点中心的位置：从左到右布局中把上下左右一起转置（上方对应父节点一侧），
+// 大纲中上下方向是相邻的行，统一放到节点右侧的标签之后
+export function annotationPlacement(layout: TreeLayout, position: Annotation['position']): Placement {
+  const offsets: Record<Annotation['position'], NodePosition> = {
+    top: { x: 0, y: -35 },
+    bottom: { x: 0, y: 40 },
+    left: { x: -40, y: 0 },
+    right: { x: 40, y: 0 },
+  };
+
+  let { x, y } = offsets[position];
+  if (layout === 'leftToRight') {
+    [x, y] = [y, x];
+  } else if (layout === 'outline') {
+    x = position === 'left' ? -30 : 100;
+    y = position === 'top' ? -8 : position === 'bottom' ? 8 : 0;
+  }
+  return { x, y, anchor: x < 0 ? 'end' : x > 0 ? 'start' : 'middle' };
+}
+
+// 有共同节点时取它们位移的平均值（最小二乘意义下的最优平移），否则让整棵树水平居中
+function horizontalOffset(positions: Map<string, NodePosition>, previous?: Map<string, NodePosition>): number {
+  let total = 0;
+  let count = 0;
+  positions.forEach((position, id) => {
+    const before = previous?.get(id);
+    if (before) {
+      total += before.x - position.x;
+      count++;
+    }
+  });
+  if (count > 0) {
+    return total / count;
+  }
+
+  const xs = [...positions.values()].map(position => position.x);
+  return -(Math.min(...xs) + Math.max(...xs)) / 2;
+}
+
+function shiftPositions(positions: Map<string, NodePosition>, dx: number): Map<string, NodePosition> {
+  const shifted = new Map<string, NodePosition>();
+  positions.forEach((position, id) => {
+    shifted.set(id, { x: position.x + dx, y: position.y });
+  });
+  return shifted;
+}
+
+function transpose(positions: Map<string, NodePosition>): Map<string, NodePosition> {
+  const transposed = new Map<string, NodePosition>();
+  positions.forEach((position, id) => {
+    transposed.set(id, { x: position.y, y: position.x });
+  });
+  return transposed;
+}
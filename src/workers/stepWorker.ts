@@ -0,0 +1,51 @@
+import type { AlgorithmStep, StepProgressHandler, StepWorkerRequest, StepWorkerResponse } from '../types';
+import { generateSteps } from '../algorithm/trie';
+import { generateRadixSteps } from '../algorithm/radixTrie';
+import { generateAhoCorasickSteps } from '../algorithm/ahoCorasick';
+
+// 在 Worker 中生成算法步骤，分批推送给主线程，使大数据集下界面不卡顿、可以边生成边播放
+
+const BATCH_SIZE = 500;
+
+function post(message: StepWorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<StepWorkerRequest>) => {
+  const { operations, mode, text } = event.data;
+  let pending: AlgorithmStep[] = [];
+  let sent = 0;
+  
+  const flush = (completedOperations: number) => {
+    post({ type: 'batch', steps: pending, completedOperations, totalOperations: operations.length });
+    sent += pending.length;
+    pending = [];
+  };
+  
+  try {
+    const onProgress: StepProgressHandler = (batch, completedOperations) => {
+      pending = pending.concat(batch);
+      // 第一批尽快发出，让播放可以提前开始
+      if (sent === 0 || pending.length >= BATCH_SIZE) {
+        flush(completedOperations);
+      }
+    };
+    
+    let steps: AlgorithmStep[];
+    if (mode === 'ahoCorasick') {
+      steps = generateAhoCorasickSteps(operations, text, onProgress);
+    } else if (mode === 'radix') {
+      steps = generateRadixSteps(operations, onProgress);
+    } else {
+      steps = generateSteps(operations, onProgress);
+    }
+    
+    if (pending.length > 0) {
+      flush(operations.length);
+    }
+    
+    post({ type: 'done', results: operations.map(op => op.result), totalSteps: steps.length });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};